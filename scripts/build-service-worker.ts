@@ -0,0 +1,107 @@
+// scripts/build-service-worker.ts
+// Bundles the service worker (src/sw/service-worker.ts) into public/sw.js, along with the files it precaches:
+// - everything under .next/static (the JS and CSS chunks and self-hosted fonts), served from /_next/static
+// - the landing page and the album pages, as prerendered by the build
+// - the web app manifest, the favicon and the search index
+// Each file's revision is a hash of its contents, and the cache is named after the build id.
+// Runs after `next build`, whose output it reads.
+//
+// Usage:
+//   npm run sw
+import { promises as fs } from 'fs';
+import path from 'path';
+import { build } from 'esbuild';
+import { CONTENT_HASH_LENGTH } from '../src/lib/content-hash';
+import type { PrecacheEntry } from '../src/sw/precache';
+import { computeContentHash } from './lib/image-hash';
+import { PUBLIC_DIR, ROOT_DIR } from './lib/memories';
+
+const NEXT_DIR = path.join(ROOT_DIR, '.next');
+const PAGES_DIR = path.join(NEXT_DIR, 'server/app');
+const ENTRY_POINT = path.join(ROOT_DIR, 'src/sw/service-worker.ts');
+const OUTPUT_PATH = path.join(PUBLIC_DIR, 'sw.js');
+
+// Routes precached as pages. Single memories are left out: there are many of them,
+// and each is cached the first time it is opened.
+const PRECACHED_ROUTES = [/^\/$/, /^\/album\/[^/]+$/];
+
+const getRevision = async (filePath: string): Promise<string> => {
+  return (await computeContentHash(filePath)).slice(0, CONTENT_HASH_LENGTH);
+};
+
+const toUrlPath = (relativePath: string): string => relativePath.split(path.sep).join('/');
+
+const listFiles = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)))
+    .sort();
+};
+
+const getStaticAssets = async (): Promise<PrecacheEntry[]> => {
+  const staticDir = path.join(NEXT_DIR, 'static');
+  const files = (await listFiles(staticDir)).filter(file => !file.endsWith('.map'));
+  return Promise.all(files.map(async file => ({
+    url: `/_next/static/${toUrlPath(file)}`,
+    revision: await getRevision(path.join(staticDir, file)),
+  })));
+};
+
+// Prerendered pages are stored as e.g. index.html for "/" and album/ncc-atc-camp.html for "/album/ncc-atc-camp".
+const getPages = async (): Promise<PrecacheEntry[]> => {
+  const pages = (await listFiles(PAGES_DIR))
+    .filter(file => file.endsWith('.html'))
+    .map(file => {
+      const route = `/${toUrlPath(file).replace(/\.html$/, '')}`.replace(/^\/index$/, '/');
+      return { route, filePath: path.join(PAGES_DIR, file) };
+    })
+    .filter(({ route }) => PRECACHED_ROUTES.some(pattern => pattern.test(route)));
+  return Promise.all(pages.map(async ({ route, filePath }) => ({ url: route, revision: await getRevision(filePath) })));
+};
+
+const getPublicFiles = async (): Promise<PrecacheEntry[]> => {
+  const files: [string, string][] = [
+    ['/manifest.json', path.join(PUBLIC_DIR, 'manifest.json')],
+    ['/favicon.ico', path.join(ROOT_DIR, 'src/app/favicon.ico')],
+  ];
+  // Written by `npm run tags`; the grid's search falls back to keywords alone without it.
+  const searchIndex = path.join(PUBLIC_DIR, 'search-index.json');
+  if (await fs.stat(searchIndex).then(() => true, () => false)) {
+    files.push(['/search-index.json', searchIndex]);
+  }
+  return Promise.all(files.map(async ([url, filePath]) => ({ url, revision: await getRevision(filePath) })));
+};
+
+const buildServiceWorker = async () => {
+  const buildId = (await fs.readFile(path.join(NEXT_DIR, 'BUILD_ID'), 'utf8').catch(() => '')).trim();
+  if (!buildId) {
+    console.error('No Next.js build found in .next. Run `npm run build` first.');
+    process.exit(1);
+  }
+
+  const precacheManifest = [...(await getPages()), ...(await getStaticAssets()), ...(await getPublicFiles())];
+
+  await build({
+    entryPoints: [ENTRY_POINT],
+    outfile: OUTPUT_PATH,
+    bundle: true,
+    format: 'iife',
+    target: 'es2020',
+    minify: true,
+    tsconfig: path.join(ROOT_DIR, 'src/sw/tsconfig.json'),
+    define: {
+      __BUILD_ID__: JSON.stringify(buildId),
+      __PRECACHE_MANIFEST__: JSON.stringify(precacheManifest),
+    },
+    banner: { js: '// Generated by `npm run sw` from src/sw/service-worker.ts. Do not edit.' },
+    logLevel: 'warning',
+  });
+
+  console.log(`Wrote ${path.relative(ROOT_DIR, OUTPUT_PATH)} for build ${buildId}, precaching ${precacheManifest.length} file(s).`);
+};
+
+buildServiceWorker().catch((error) => {
+  console.error('Error building the service worker:', error);
+  process.exit(1);
+});
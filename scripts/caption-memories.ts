@@ -0,0 +1,70 @@
+// scripts/caption-memories.ts
+// Writes the description, alt text and hint of memories in src/lib/placeholder-images.json
+// with the captionMemory Genkit flow (src/ai/flows/caption-memory.ts).
+// Needs GEMINI_API_KEY, or GENKIT_MODEL=stub/model to try it offline.
+//
+// Usage:
+//   npm run captions                        caption every memory that has no alt text yet
+//   npm run captions -- --all               caption every memory again, replacing what is there
+//   npm run captions -- --ids=jpeg-2,jpeg-5 caption just these memories
+//   npm run captions -- --dry-run           print the captions without writing the manifest
+import { promises as fs } from 'fs';
+import path from 'path';
+import { captionMemory } from '../src/ai/flows/caption-memory';
+import { formatAlbumDates, getAlbumForImage } from '../src/lib/albums';
+import type { ImageManifest } from '../src/lib/image-manifest';
+import { MANIFEST_PATH, cleanHint, getFlagValue, toDataUri, writeManifest } from './lib/memories';
+
+// Tells the model which camp the photo is from, if it is in an album.
+const describeContext = (imageId: string): string | undefined => {
+  const album = getAlbumForImage(imageId);
+  return album ? `${album.title}, ${formatAlbumDates(album)}` : undefined;
+};
+
+const captionMemories = async () => {
+  const captionAll = process.argv.includes('--all');
+  const dryRun = process.argv.includes('--dry-run');
+  const ids = getFlagValue('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as ImageManifest;
+  const unknownIds = ids?.filter(id => !manifest.placeholderImages.some(image => image.id === id)) ?? [];
+  if (unknownIds.length > 0) {
+    console.error(`Not in the manifest: ${unknownIds.join(', ')}`);
+    process.exit(1);
+  }
+
+  const images = manifest.placeholderImages.filter(image => (ids ? ids.includes(image.id) : captionAll || !image.alt));
+  if (images.length === 0) {
+    console.log('Every memory already has a caption. Use --all to caption them again.');
+    return;
+  }
+
+  console.log(`Captioning ${images.length} memor${images.length === 1 ? 'y' : 'ies'}${dryRun ? ' (dry run)' : ''}...`);
+  let failed = 0;
+  for (const image of images) {
+    try {
+      const caption = await captionMemory({ photoDataUri: await toDataUri(image.imageUrl), context: describeContext(image.id) });
+      image.description = caption.description;
+      image.alt = caption.altText;
+      image.imageHint = cleanHint(caption.hintKeywords.join(' '));
+      console.log(`  ${image.id}: ${caption.description}\n    alt: ${caption.altText}\n    hint: ${image.imageHint}`);
+    } catch (error) {
+      failed++;
+      console.error(`  ${image.id}: failed, ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (!dryRun && failed < images.length) {
+    await writeManifest(manifest.placeholderImages);
+    console.log(`Updated ${images.length - failed} caption(s) in ${path.relative(process.cwd(), MANIFEST_PATH)}.`);
+  }
+  if (failed > 0) {
+    console.error(`${failed} memor${failed === 1 ? 'y' : 'ies'} could not be captioned.`);
+    process.exit(1);
+  }
+};
+
+captionMemories().catch((error) => {
+  console.error('Error captioning memories:', error);
+  process.exit(1);
+});
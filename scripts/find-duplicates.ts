@@ -0,0 +1,42 @@
+// scripts/find-duplicates.ts
+// Reports photos in public/memories that are exact or visual duplicates of each other.
+//
+// Usage:
+//   npm run duplicates                   list duplicate groups
+//   npm run duplicates -- --threshold=10 loosen how similar two photos must be (default 6 of 64 bits)
+import path from 'path';
+import { DEFAULT_SIMILARITY_THRESHOLD, describeDuplicateGroup, findDuplicateGroups } from './lib/image-hash';
+import { getFlagValue, hashMemoryFile, listMemoryFiles } from './lib/memories';
+
+const findDuplicates = async () => {
+  const threshold = Number(getFlagValue('threshold') ?? DEFAULT_SIMILARITY_THRESHOLD);
+  if (!Number.isInteger(threshold) || threshold < 0 || threshold > 64) {
+    console.error('--threshold must be a whole number between 0 and 64.');
+    process.exit(1);
+  }
+
+  const fileNames = await listMemoryFiles();
+  const images = [];
+  for (const fileName of fileNames) {
+    images.push(await hashMemoryFile(fileName));
+  }
+
+  const groups = findDuplicateGroups(images, threshold);
+  if (groups.length === 0) {
+    console.log(`No duplicates among ${images.length} photo(s).`);
+    return;
+  }
+
+  console.log(`Found ${groups.length} group(s) of duplicates among ${images.length} photo(s) (threshold ${threshold}):`);
+  groups.forEach((group) => {
+    console.log(`  ${describeDuplicateGroup(group)}`);
+    group.images.forEach(image => console.log(`      ${path.basename(image.filePath)}  ${image.perceptualHash}`));
+  });
+  console.log('Only one copy of identical photos goes into the manifest. Similar photos are all kept unless');
+  console.log('`npm run manifest -- --drop-similar` is run, which keeps the first of each group.');
+};
+
+findDuplicates().catch((error) => {
+  console.error('Error finding duplicates:', error);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+// scripts/find-faces.ts
+// Finds the faces in every memory, groups the faces that belong to the same person, and writes who is in each
+// photo into src/lib/placeholder-images.json. Runs entirely on this machine's CPU (see scripts/lib/faces.ts).
+//
+// Every group becomes a person in src/lib/people.json, e.g. { "id": "person-3" }. Add a "name" to the people you
+// recognise and they show up in the People filter of the grid; give two groups the same name to merge them.
+// The grid hides the filter while nobody is named.
+// The average face of each group is kept in .faces/clusters.json, so a person keeps their id (and name) when photos
+// are added and this runs again. Faces are never committed: .faces/ is gitignored and stays on this machine.
+//
+// Usage:
+//   npm run faces                       find faces and update the manifest and the people list
+//   npm run faces -- --crops            also save every face to .faces/crops/<person id>/, to see who is who
+//   npm run faces -- --threshold=0.45   match faces more strictly (default 0.5; lower is stricter)
+//   npm run faces -- --dry-run          print the groups without writing anything
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ImageManifest } from '../src/lib/image-manifest';
+import { DEFAULT_MATCH_THRESHOLD, cropFace, detectFaces, faceDistance, type DetectedFace } from './lib/faces';
+import { MANIFEST_PATH, ROOT_DIR, getFlagValue, writeManifest } from './lib/memories';
+
+const PEOPLE_PATH = path.join(ROOT_DIR, 'src/lib/people.json');
+const FACES_DIR = path.join(ROOT_DIR, '.faces');
+const CLUSTERS_PATH = path.join(FACES_DIR, 'clusters.json');
+const CROPS_DIR = path.join(FACES_DIR, 'crops');
+
+// A face seen in just one photo is usually someone in the background; they only become a person once they
+// turn up in this many photos, or once someone has named them.
+const MIN_PHOTOS_PER_PERSON = 2;
+
+type Person = { id: string; name?: string };
+type SavedCluster = { id: string; centroid: number[] };
+
+type Cluster = {
+  id: string;
+  // Running mean of the descriptors assigned so far, starting from the saved average face.
+  centroid: number[];
+  weight: number;
+  faces: { imageId: string; imageUrl: string; face: DetectedFace }[];
+};
+
+const readJson = async <T>(filePath: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+};
+
+const getPersonNumber = (id: string): number => Number(id.slice('person-'.length));
+
+const findFaces = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  const saveCrops = process.argv.includes('--crops');
+  const threshold = Number(getFlagValue('threshold') ?? DEFAULT_MATCH_THRESHOLD);
+  if (!(threshold > 0 && threshold < 1)) {
+    console.error('--threshold must be a number between 0 and 1.');
+    process.exit(1);
+  }
+
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as ImageManifest;
+  const { people } = await readJson<{ people: Person[] }>(PEOPLE_PATH, { people: [] });
+  const { clusters: saved } = await readJson<{ clusters: SavedCluster[] }>(CLUSTERS_PATH, { clusters: [] });
+
+  const clusters: Cluster[] = saved.map(({ id, centroid }) => ({ id, centroid, weight: 1, faces: [] }));
+  let nextNumber = Math.max(0, ...[...people, ...saved].map(({ id }) => getPersonNumber(id))) + 1;
+
+  console.log(`Looking for faces in ${manifest.placeholderImages.length} memories...`);
+  let faceCount = 0;
+  for (const image of manifest.placeholderImages) {
+    const faces = await detectFaces(image.imageUrl);
+    faceCount += faces.length;
+    for (const face of faces) {
+      // Nobody is in a photo twice, so a person who already has a face in this one is out.
+      const nearest = clusters
+        .filter(cluster => !cluster.faces.some(({ imageId }) => imageId === image.id))
+        .map(cluster => ({ cluster, distance: faceDistance(face.descriptor, cluster.centroid) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      let cluster = nearest && nearest.distance < threshold ? nearest.cluster : undefined;
+      if (!cluster) {
+        cluster = { id: `person-${nextNumber++}`, centroid: [...face.descriptor], weight: 0, faces: [] };
+        clusters.push(cluster);
+      }
+      const { centroid } = cluster;
+      cluster.weight++;
+      face.descriptor.forEach((value, i) => (centroid[i] += (value - centroid[i]) / cluster.weight));
+      cluster.faces.push({ imageId: image.id, imageUrl: image.imageUrl, face });
+    }
+    console.log(`  ${image.id}: ${faces.length} face(s)`);
+  }
+
+  const names = new Map(people.map(person => [person.id, person.name]));
+  const kept = clusters.filter(cluster => (
+    names.get(cluster.id) || new Set(cluster.faces.map(({ imageId }) => imageId)).size >= MIN_PHOTOS_PER_PERSON
+  ));
+  kept.sort((a, b) => getPersonNumber(a.id) - getPersonNumber(b.id));
+
+  console.log(`Found ${faceCount} face(s), ${kept.length} recurring or named people:`);
+  kept.forEach(({ id, faces }) => {
+    const imageIds = [...new Set(faces.map(({ imageId }) => imageId))];
+    console.log(`  ${id}${names.get(id) ? ` (${names.get(id)})` : ''}: ${imageIds.length} photo(s), ${imageIds.join(', ')}`);
+  });
+  if (dryRun) return;
+
+  const peopleByImage = new Map<string, Set<string>>();
+  kept.forEach(({ id, faces }) => faces.forEach(({ imageId }) => {
+    peopleByImage.set(imageId, (peopleByImage.get(imageId) ?? new Set()).add(id));
+  }));
+  manifest.placeholderImages.forEach((image) => {
+    const ids = [...(peopleByImage.get(image.id) ?? [])].sort((a, b) => getPersonNumber(a) - getPersonNumber(b));
+    image.people = ids.length > 0 ? ids : undefined;
+  });
+  await writeManifest(manifest.placeholderImages);
+
+  const updatedPeople = kept.map(({ id }) => ({ id, name: names.get(id) }));
+  await fs.writeFile(PEOPLE_PATH, `${JSON.stringify({ people: updatedPeople }, null, 2)}\n`);
+  await fs.mkdir(FACES_DIR, { recursive: true });
+  const centroids = kept.map(({ id, centroid }) => ({ id, centroid: centroid.map(value => Number(value.toFixed(5))) }));
+  await fs.writeFile(CLUSTERS_PATH, `${JSON.stringify({ clusters: centroids })}\n`);
+  console.log(`Wrote ${path.relative(ROOT_DIR, MANIFEST_PATH)}, ${path.relative(ROOT_DIR, PEOPLE_PATH)} and ${path.relative(ROOT_DIR, CLUSTERS_PATH)}.`);
+
+  if (saveCrops) {
+    await fs.rm(CROPS_DIR, { recursive: true, force: true });
+    for (const { id, faces } of kept) {
+      await fs.mkdir(path.join(CROPS_DIR, id), { recursive: true });
+      for (const [index, { imageId, imageUrl, face }] of faces.entries()) {
+        await fs.writeFile(path.join(CROPS_DIR, id, `${imageId}-${index + 1}.jpg`), await cropFace(imageUrl, face.box));
+      }
+    }
+    console.log(`Saved the faces of each person to ${path.relative(ROOT_DIR, CROPS_DIR)}/.`);
+  }
+};
+
+findFaces().catch((error) => {
+  console.error('Error finding faces:', error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+// scripts/generate-manifest.ts
+// Builds src/lib/placeholder-images.json from the photos actually present in public/memories,
+// and writes the resized copies of each photo to public/memories/variants.
+//
+// Usage:
+//   npm run manifest            regenerate the manifest
+//   npm run manifest -- --check exit non-zero if the manifest is out of date, without writing it
+//   npm run manifest -- --drop-similar
+//                               also leave out photos that only look like another one (see `npm run duplicates`)
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageManifestSchema, formatManifestProblems, getManifestProblems } from '../src/lib/image-manifest';
+import type { ImagePlaceholder } from '../src/lib/placeholder-images';
+import { generatePreview, getVariants, hashDerivatives, removeStaleDerivatives, writeDerivatives } from './lib/derivatives';
+import { describeDuplicateGroup, findDuplicateGroups, type HashedImage } from './lib/image-hash';
+import { MANIFEST_PATH, ROOT_DIR, cleanHint, getImageUrl, getManifestVersion, hashMemoryFile, listMemoryFiles, readCaptureInfo } from './lib/memories';
+
+const DEFAULT_DESCRIPTION = 'A memory from the NCC ATC camp.';
+
+type Manifest = { version?: string; placeholderImages: ImagePlaceholder[] };
+
+const readExistingManifest = async (): Promise<Manifest> => {
+  try {
+    return JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as Manifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { placeholderImages: [] };
+    }
+    throw error;
+  }
+};
+
+const generateManifest = async () => {
+  const checkOnly = process.argv.includes('--check');
+  const dropSimilar = process.argv.includes('--drop-similar');
+  const existing = await readExistingManifest();
+  const existingById = new Map(existing.placeholderImages.map(image => [image.id, image]));
+
+  const fileNames = await listMemoryFiles();
+  const hashed: HashedImage[] = [];
+  for (const fileName of fileNames) {
+    hashed.push(await hashMemoryFile(fileName));
+  }
+
+  // The same file copied in twice would otherwise show up twice in one viewing cycle, so only one copy of it makes
+  // it into the manifest. Photos that merely look alike are often distinct shots of a burst, so they are only
+  // reported unless asked to leave them out too.
+  const duplicateGroups = findDuplicateGroups(hashed);
+  const duplicateIds = new Set(duplicateGroups
+    .filter(group => group.identical || dropSimilar)
+    .flatMap(group => group.images.slice(1).map(image => image.id)));
+  if (duplicateGroups.length > 0) {
+    console.log(`Found ${duplicateGroups.length} group(s) of duplicate photos:`);
+    duplicateGroups.forEach((group) => {
+      const excluded = group.identical || dropSimilar;
+      console.log(`  ${describeDuplicateGroup(group)}${excluded ? ', keeping the first' : ''}`);
+    });
+    if (!dropSimilar && duplicateGroups.some(group => !group.identical)) {
+      console.log('Similar photos are all kept; pass --drop-similar to keep only the first of each group.');
+    }
+  }
+
+  const kept = hashed
+    .map((image, index) => ({ ...image, fileName: fileNames[index] }))
+    .filter(({ id }) => !duplicateIds.has(id));
+
+  // The manifest records a hash of every resized copy, so the copies have to exist first.
+  // A check never writes them; a missing copy just means the manifest is out of date.
+  if (!checkOnly) {
+    let written = 0;
+    for (const { id, filePath, width, height } of kept) {
+      written += await writeDerivatives(filePath, getVariants(id, width, height));
+    }
+    const removedFiles = await removeStaleDerivatives(kept.map(({ id, width, height }) => getVariants(id, width, height)));
+    console.log(`Resized copies: ${written} written, ${removedFiles} stale file(s) removed.`);
+  }
+
+  const images: ImagePlaceholder[] = [];
+  for (const { id, fileName, filePath, width, height } of kept) {
+    const { takenAt, camera } = await readCaptureInfo(filePath);
+    const previous = existingById.get(id);
+    const variants = await hashDerivatives(getVariants(id, width, height)).catch((error) => {
+      if (checkOnly && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.error(`Resized copies of ${id} are missing. Run \`npm run manifest\` to write them.`);
+        process.exit(1);
+      }
+      throw error;
+    });
+
+    images.push({
+      id,
+      description: previous?.description?.trim() || DEFAULT_DESCRIPTION,
+      alt: previous?.alt?.trim() || undefined,
+      imageUrl: getImageUrl(fileName),
+      imageHint: cleanHint(previous?.imageHint),
+      tags: previous?.tags,
+      people: previous?.people,
+      width,
+      height,
+      orientation: height > width ? 'portrait' : 'landscape',
+      takenAt,
+      camera,
+      variants,
+      placeholder: await generatePreview(filePath),
+    });
+  }
+
+  // Never write a manifest the app would refuse to load.
+  const manifest = { version: getManifestVersion(images), placeholderImages: images };
+  const result = ImageManifestSchema.safeParse(manifest);
+  if (!result.success) {
+    console.error(formatManifestProblems(getManifestProblems(result.error, manifest)));
+    process.exit(1);
+  }
+
+  const generatedIds = new Set(images.map(image => image.id));
+  const added = images.filter(image => !existingById.has(image.id));
+  const removed = existing.placeholderImages.filter(image => !generatedIds.has(image.id));
+  const output = `${JSON.stringify(manifest, null, 2)}\n`;
+  const current = await fs.readFile(MANIFEST_PATH, 'utf8').catch(() => '');
+
+  console.log(`Found ${fileNames.length} image(s) in public/memories, ${images.length} in the manifest (${added.length} new, ${removed.length} removed).`);
+  removed.forEach(image => console.log(`  - dropped ${image.id} (${duplicateIds.has(image.id) ? 'duplicate photo' : `${image.imageUrl} does not exist`})`));
+
+  if (current === output) {
+    console.log('Image manifest is up to date.');
+    return;
+  }
+  if (checkOnly) {
+    console.error('Image manifest is out of date. Run `npm run manifest` to regenerate it.');
+    process.exit(1);
+  }
+
+  await fs.writeFile(MANIFEST_PATH, output);
+  console.log(`Wrote ${path.relative(ROOT_DIR, MANIFEST_PATH)}.`);
+};
+
+generateManifest().catch((error) => {
+  console.error('Error generating image manifest:', error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+// scripts/lib/derivatives.ts
+// Writes the resized WebP and AVIF copies of each memory that the gallery serves instead of the originals.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { CONTENT_HASH_LENGTH } from '../../src/lib/content-hash';
+import type { ImageVariant } from '../../src/lib/image-manifest';
+import { VARIANT_SIZES, VARIANT_WIDTHS, type VariantSize } from '../../src/lib/image-variants';
+import { computeContentHash } from './image-hash';
+import { MEMORIES_DIR, PUBLIC_DIR } from './memories';
+
+export const VARIANTS_DIR = path.join(MEMORIES_DIR, 'variants');
+
+const WEBP_QUALITY = 80;
+const AVIF_QUALITY = 55;
+
+// Width of the inline preview shown while the real image loads; the browser scales and blurs it up.
+const PREVIEW_WIDTH = 16;
+
+export type ImageVariants = Record<VariantSize, ImageVariant>;
+// The variants before their files are written, so without content hashes.
+export type VariantFiles = Record<VariantSize, Omit<ImageVariant, 'hashes'>>;
+
+const toUrl = (filePath: string): string => `/${path.relative(PUBLIC_DIR, filePath).split(path.sep).join('/')}`;
+
+// Short hash of everything besides the photo that decides a variant's bytes. It is part of the file name, so
+// changing a width, a quality or the encoder writes new files instead of keeping copies made the old way.
+const getSettingsHash = (size: VariantSize, format: 'webp' | 'avif'): string => {
+  const settings = {
+    width: VARIANT_WIDTHS[size],
+    format,
+    quality: format === 'webp' ? WEBP_QUALITY : AVIF_QUALITY,
+    encoder: { sharp: sharp.versions.sharp, vips: sharp.versions.vips },
+  };
+  return createHash('sha256').update(JSON.stringify(settings)).digest('hex').slice(0, 8);
+};
+
+// A derivative is current when it exists and is newer than the photo it was made from; its settings are in its name.
+const isUpToDate = async (sourcePath: string, outputPath: string): Promise<boolean> => {
+  try {
+    const [source, output] = await Promise.all([fs.stat(sourcePath), fs.stat(outputPath)]);
+    return output.mtimeMs >= source.mtimeMs;
+  } catch {
+    return false;
+  }
+};
+
+// Scales the displayed (EXIF-rotated) size down to a target width, never up.
+const getScaledSize = (width: number, height: number, targetWidth: number) => {
+  const scale = Math.min(1, targetWidth / width);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Sizes and URLs of the variants of a photo. `width` and `height` are the displayed dimensions of the original.
+export const getVariants = (id: string, width: number, height: number): VariantFiles => {
+  const variants = {} as VariantFiles;
+  for (const size of VARIANT_SIZES) {
+    variants[size] = {
+      ...getScaledSize(width, height, VARIANT_WIDTHS[size]),
+      webp: toUrl(path.join(VARIANTS_DIR, `${id}-${size}.${getSettingsHash(size, 'webp')}.webp`)),
+      avif: toUrl(path.join(VARIANTS_DIR, `${id}-${size}.${getSettingsHash(size, 'avif')}.avif`)),
+    };
+  }
+  return variants;
+};
+
+// Writes every variant file that is missing or older than its source photo, returning how many were written.
+export const writeDerivatives = async (sourcePath: string, variants: VariantFiles): Promise<number> => {
+  await fs.mkdir(VARIANTS_DIR, { recursive: true });
+
+  let written = 0;
+  for (const size of VARIANT_SIZES) {
+    const variant = variants[size];
+    for (const format of ['webp', 'avif'] as const) {
+      const outputPath = path.join(PUBLIC_DIR, variant[format]);
+      if (await isUpToDate(sourcePath, outputPath)) continue;
+      // rotate() with no angle applies the EXIF orientation, so the copies need no metadata to display upright.
+      const pipeline = sharp(sourcePath).rotate().resize(variant.width, variant.height);
+      await (format === 'webp'
+        ? pipeline.webp({ quality: WEBP_QUALITY })
+        : pipeline.avif({ quality: AVIF_QUALITY })
+      ).toFile(outputPath);
+      written++;
+    }
+  }
+  return written;
+};
+
+// The variants map for the manifest: the written files with their content hashes.
+// Throws if a file is missing, i.e. the derivatives were never written.
+export const hashDerivatives = async (variants: VariantFiles): Promise<ImageVariants> => {
+  const hashed = {} as ImageVariants;
+  for (const size of VARIANT_SIZES) {
+    const variant = variants[size];
+    const [webp, avif] = await Promise.all(
+      [variant.webp, variant.avif].map(async url => (await computeContentHash(path.join(PUBLIC_DIR, url))).slice(0, CONTENT_HASH_LENGTH))
+    );
+    hashed[size] = { ...variant, hashes: { webp, avif } };
+  }
+  return hashed;
+};
+
+// A tiny WebP of the photo as a data URI, small enough (~150 bytes) to ship inline in the manifest
+// and paint instantly before any image request has finished.
+export const generatePreview = async (sourcePath: string): Promise<string> => {
+  const buffer = await sharp(sourcePath)
+    .rotate()
+    .resize(PREVIEW_WIDTH)
+    .webp({ quality: 40 })
+    .toBuffer();
+  return `data:image/webp;base64,${buffer.toString('base64')}`;
+};
+
+// Deletes derivatives that are not among the variants of the memories still in the manifest,
+// including copies made with older settings.
+export const removeStaleDerivatives = async (current: VariantFiles[]): Promise<number> => {
+  const currentNames = new Set(current.flatMap(variants => VARIANT_SIZES.flatMap(size => (
+    [variants[size].webp, variants[size].avif].map(url => path.basename(url))
+  ))));
+  const fileNames = await fs.readdir(VARIANTS_DIR).catch(() => [] as string[]);
+  const stale = fileNames.filter(fileName => !currentNames.has(fileName));
+  await Promise.all(stale.map(fileName => fs.unlink(path.join(VARIANTS_DIR, fileName))));
+  return stale.length;
+};
@@ -0,0 +1,21 @@
+// scripts/lib/faces.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { detectFaces, getTileStarts } from './faces';
+
+test('tiles cover a side with the overlap asked for, ending flush with it', () => {
+  assert.deepEqual(getTileStarts(800, 1024, 0.25), [0]);
+  const starts = getTileStarts(4032, 1024, 0.25);
+  assert.equal(starts[0], 0);
+  assert.equal(starts[starts.length - 1], 4032 - 1024);
+  starts.slice(1).forEach((start, i) => assert.ok(start - starts[i] <= 1024 * 0.75));
+});
+
+test('finds the faces in a group photo of the camp', { timeout: 120_000 }, async () => {
+  const faces = await detectFaces('/memories/16.jpg');
+  assert.ok(faces.length >= 20, `found ${faces.length} face(s)`);
+  faces.forEach(({ box, descriptor }) => {
+    assert.ok(box.x >= 0 && box.y >= 0 && box.x + box.width <= 1 && box.y + box.height <= 1);
+    assert.equal(descriptor.length, 128);
+  });
+});
@@ -0,0 +1,144 @@
+// scripts/lib/faces.ts
+// Face detection and recognition for scripts, on the CPU through TensorFlow.js's WebAssembly backend.
+// The models ship inside @vladmandic/face-api, so nothing is downloaded and no photo leaves the machine.
+import path from 'path';
+import sharp from 'sharp';
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-wasm';
+import * as faceapi from '@vladmandic/face-api/dist/face-api.node-wasm.js';
+import { PUBLIC_DIR } from './memories';
+
+// The detector looks at its input at 512x512, so a whole group photo would leave every face a few pixels wide.
+// Photos are scanned at full resolution instead, in overlapping square tiles of this size, and once whole, scaled
+// down to it, for faces too big to fit inside the overlap of two tiles.
+const TILE_SIZE = 1024;
+const TILE_OVERLAP = 0.25;
+// Detections the model is less sure of are mostly shadows, badges and patterns on uniforms.
+const MIN_DETECTION_CONFIDENCE = 0.5;
+// Faces smaller than this share of the scanned image are too blurry to tell people apart reliably.
+export const MIN_FACE_FRACTION = 0.02;
+// Two detections overlapping by more than this (intersection over union) are the same face seen from two tiles.
+const SAME_FACE_OVERLAP = 0.3;
+
+// A face found in a photo. The box is in fractions of the photo's width and height,
+// and the descriptor is the 128-number vector face-api compares faces with.
+export type DetectedFace = {
+  box: { x: number; y: number; width: number; height: number };
+  descriptor: number[];
+};
+
+let modelsLoaded: Promise<void> | null = null;
+
+export const loadFaceModels = (): Promise<void> => {
+  modelsLoaded ??= (async () => {
+    await tf.setBackend('wasm');
+    await tf.ready();
+    const modelDir = path.join(path.dirname(require.resolve('@vladmandic/face-api/package.json')), 'model');
+    await faceapi.nets.ssdMobilenetv1.loadFromDisk(modelDir);
+    await faceapi.nets.faceLandmark68Net.loadFromDisk(modelDir);
+    await faceapi.nets.faceRecognitionNet.loadFromDisk(modelDir);
+  })();
+  return modelsLoaded;
+};
+
+type Box = DetectedFace['box'];
+
+// Where tiles of `size` start along a side of `length` pixels, so they cover it with the given overlap.
+export const getTileStarts = (length: number, size: number, overlap: number): number[] => {
+  if (length <= size) return [0];
+  const count = Math.ceil((length - size) / (size * (1 - overlap))) + 1;
+  const step = (length - size) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+};
+
+const getOverlap = (a: Box, b: Box): number => {
+  const width = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const height = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+type ScoredFace = DetectedFace & { score: number };
+
+// Scans an image cut or scaled from a photo, returning the faces found with their boxes in pixels of the photo:
+// `left` and `top` are where the image starts in the photo, and `scale` how much it was shrunk.
+const detectInImage = async (image: sharp.Sharp, left: number, top: number, scale: number): Promise<ScoredFace[]> => {
+  const { data, info } = await image.removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+  try {
+    const results = await faceapi
+      .detectAllFaces(tensor as unknown as faceapi.TNetInput, new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_DETECTION_CONFIDENCE }))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+    const minFaceSize = Math.max(info.width, info.height) * MIN_FACE_FRACTION;
+    return results
+      .filter(({ detection }) => Math.min(detection.box.width, detection.box.height) >= minFaceSize)
+      .map(({ detection, descriptor }) => ({
+        box: {
+          x: left + detection.box.x * scale,
+          y: top + detection.box.y * scale,
+          width: detection.box.width * scale,
+          height: detection.box.height * scale,
+        },
+        descriptor: Array.from(descriptor),
+        score: detection.score,
+      }));
+  } finally {
+    tensor.dispose();
+  }
+};
+
+// Finds the faces in a photo served from `imageUrl`, leaving out those too small to recognise.
+export const detectFaces = async (imageUrl: string): Promise<DetectedFace[]> => {
+  await loadFaceModels();
+  // Decoded once, upright, and shared by every tile.
+  const { data, info } = await sharp(path.join(PUBLIC_DIR, imageUrl)).rotate().raw().toBuffer({ resolveWithObject: true });
+  const photo = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+
+  const found: ScoredFace[] = [];
+  const tops = getTileStarts(info.height, TILE_SIZE, TILE_OVERLAP);
+  const lefts = getTileStarts(info.width, TILE_SIZE, TILE_OVERLAP);
+  for (const top of tops) {
+    for (const left of lefts) {
+      const tile = { left, top, width: Math.min(TILE_SIZE, info.width - left), height: Math.min(TILE_SIZE, info.height - top) };
+      found.push(...await detectInImage(photo.clone().extract(tile), left, top, 1));
+    }
+  }
+  if (tops.length > 1 || lefts.length > 1) {
+    const scale = Math.max(info.width, info.height) / TILE_SIZE;
+    found.push(...await detectInImage(photo.clone().resize(TILE_SIZE, TILE_SIZE, { fit: 'inside' }), 0, 0, scale));
+  }
+
+  // A face in the overlap of two tiles, or also seen whole, is found more than once; the surer detection stands for all.
+  const faces: ScoredFace[] = [];
+  found
+    .sort((a, b) => b.score - a.score)
+    .forEach((face) => {
+      if (!faces.some(kept => getOverlap(kept.box, face.box) > SAME_FACE_OVERLAP)) faces.push(face);
+    });
+
+  return faces.map(({ box, descriptor }) => ({
+    box: { x: box.x / info.width, y: box.y / info.height, width: box.width / info.width, height: box.height / info.height },
+    descriptor,
+  }));
+};
+
+// Distance below which face-api considers two descriptors the same person is 0.6; anything stricter
+// trades missed photos for fewer strangers mixed in.
+export const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+export const faceDistance = (a: number[], b: number[]): number => {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+};
+
+// Crops a face, with some margin, to a small JPEG for someone to look at while naming people.
+export const cropFace = async (imageUrl: string, box: DetectedFace['box']): Promise<Buffer> => {
+  const image = sharp(path.join(PUBLIC_DIR, imageUrl)).rotate();
+  const { data, info } = await image.toBuffer({ resolveWithObject: true });
+  const margin = 0.25;
+  const left = Math.max(0, Math.round((box.x - box.width * margin) * info.width));
+  const top = Math.max(0, Math.round((box.y - box.height * margin) * info.height));
+  const width = Math.min(info.width - left, Math.round(box.width * (1 + 2 * margin) * info.width));
+  const height = Math.min(info.height - top, Math.round(box.height * (1 + 2 * margin) * info.height));
+  return sharp(data).extract({ left, top, width, height }).resize(160, 160, { fit: 'cover' }).jpeg({ quality: 80 }).toBuffer();
+};
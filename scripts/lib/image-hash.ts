@@ -0,0 +1,113 @@
+// scripts/lib/image-hash.ts
+// Exact and perceptual hashing of photos, used to spot the same memory saved more than once.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+
+// Perceptual hashes at or below this Hamming distance (out of 64 bits) are treated as the same shot.
+export const DEFAULT_SIMILARITY_THRESHOLD = 6;
+
+export type HashedImage = {
+  id: string;
+  filePath: string;
+  width: number;
+  height: number;
+  contentHash: string;
+  perceptualHash: string;
+};
+
+// A set of images that show the same memory. The first entry is the one worth keeping.
+export type DuplicateGroup = {
+  images: HashedImage[];
+  // Every file is byte-identical to the kept one, so leaving the others out loses nothing.
+  identical: boolean;
+  // Largest perceptual distance from the kept image to any other member; 0 for identical groups.
+  maxDistance: number;
+};
+
+// SHA-256 of the file bytes: identical files, whatever they are called.
+export const computeContentHash = async (filePath: string): Promise<string> => {
+  const buffer = await fs.readFile(filePath);
+  return createHash('sha256').update(buffer).digest('hex');
+};
+
+// Difference hash (dHash): shrink to 9x8 greyscale and record whether each pixel is brighter than its right neighbour.
+// Re-exports, resizes and recompression barely change it, so near-identical photos end up a few bits apart.
+export const computePerceptualHash = async (filePath: string): Promise<string> => {
+  const pixels = await sharp(filePath)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << BigInt(1)) | BigInt(left > right ? 1 : 0);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+// Number of differing bits between two perceptual hashes.
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance;
+};
+
+const byResolution = (a: HashedImage, b: HashedImage) => b.width * b.height - a.width * a.height;
+
+// Groups byte-identical files, then groups the remaining photos whose perceptual hash is within the threshold of
+// a kept photo. Every member is compared with its group's kept image only, never with the other members, so a
+// burst of shots that each differ a little from the next does not chain into one wide group.
+// Each group is ordered so the highest resolution comes first.
+export const findDuplicateGroups = (
+  images: HashedImage[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): DuplicateGroup[] => {
+  const byContent = new Map<string, HashedImage[]>();
+  images.forEach((image) => {
+    byContent.set(image.contentHash, [...(byContent.get(image.contentHash) ?? []), image]);
+  });
+  const identicalGroups = [...byContent.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({ images: group, identical: true, maxDistance: 0 }));
+
+  // One copy of each file, largest first, so the kept image of a similar group is its highest resolution.
+  const unique = [...byContent.values()].map(([first]) => first).sort(byResolution);
+  const grouped = new Set<HashedImage>();
+  const similarGroups: DuplicateGroup[] = [];
+  unique.forEach((kept, index) => {
+    if (grouped.has(kept)) return;
+    const matches = unique
+      .slice(index + 1)
+      .filter(other => !grouped.has(other))
+      .map(other => ({ other, distance: hammingDistance(kept.perceptualHash, other.perceptualHash) }))
+      .filter(({ distance }) => distance <= threshold);
+    if (matches.length === 0) return;
+    matches.forEach(({ other }) => grouped.add(other));
+    similarGroups.push({
+      images: [kept, ...matches.map(({ other }) => other)],
+      identical: false,
+      maxDistance: Math.max(...matches.map(({ distance }) => distance)),
+    });
+  });
+
+  return [...identicalGroups, ...similarGroups];
+};
+
+// One line per group, e.g. "photo-3 (4032x3024) <- photo-3-edit (1600x1200), similar, distance 2".
+export const describeDuplicateGroup = (group: DuplicateGroup): string => {
+  const [kept, ...others] = group.images;
+  const label = (image: HashedImage) => `${image.id} (${image.width}x${image.height})`;
+  const kind = group.identical ? 'identical' : `similar, distance ${group.maxDistance}`;
+  return `${label(kept)} <- ${others.map(label).join(', ')}, ${kind}`;
+};
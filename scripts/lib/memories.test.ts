@@ -0,0 +1,20 @@
+// scripts/lib/memories.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cleanHint, getImageId, getManifestVersion } from './memories';
+
+test('the manifest version is a short hash that changes with any entry', () => {
+  const images = [{ id: 'jpeg-2', width: 1600 }, { id: 'jpeg-5', width: 1200 }];
+  const version = getManifestVersion(images);
+  assert.match(version, /^[0-9a-f]{12}$/);
+  assert.equal(getManifestVersion(structuredClone(images)), version);
+  assert.notEqual(getManifestVersion([images[0], { ...images[1], width: 1201 }]), version);
+  assert.notEqual(getManifestVersion([images[1], images[0]]), version);
+});
+
+test('ids follow the extension-name scheme and hints are one or two keywords', () => {
+  assert.equal(getImageId('16.JPG'), 'jpg-16');
+  assert.equal(cleanHint('  Drill   Parade '), 'drill parade');
+  assert.equal(cleanHint('todo'), 'camp memory');
+  assert.equal(cleanHint('cadets at the parade'), 'camp memory');
+});
@@ -0,0 +1,145 @@
+// scripts/lib/memories.ts
+// Shared helpers for scripts that work on the photos in public/memories.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import exifReader from 'exif-reader';
+import sharp from 'sharp';
+import { ImageManifestSchema, formatManifestProblems, getManifestProblems } from '../../src/lib/image-manifest';
+import type { ImagePlaceholder } from '../../src/lib/placeholder-images';
+import { computeContentHash, computePerceptualHash, type HashedImage } from './image-hash';
+
+export const ROOT_DIR = path.resolve(__dirname, '../..');
+export const PUBLIC_DIR = path.join(ROOT_DIR, 'public');
+export const MEMORIES_DIR = path.join(PUBLIC_DIR, 'memories');
+export const MANIFEST_PATH = path.join(ROOT_DIR, 'src/lib/placeholder-images.json');
+
+// Version of a manifest: a short hash of its entries, so it changes whenever any of them does.
+export const getManifestVersion = (images: unknown[]): string => {
+  return createHash('sha256').update(JSON.stringify(images)).digest('hex').slice(0, 12);
+};
+
+// Writes the manifest for scripts that update some fields of existing entries. Keys keep the order
+// `npm run manifest` writes them in, so regenerating the manifest afterwards changes nothing.
+export const writeManifest = async (images: ImagePlaceholder[]): Promise<void> => {
+  const placeholderImages = images.map(({ id, description, alt, imageUrl, imageHint, tags, people, ...rest }) => (
+    { id, description, alt, imageUrl, imageHint, tags, people, ...rest }
+  ));
+  const manifest = { version: getManifestVersion(placeholderImages), placeholderImages };
+  // Never write a manifest the app would refuse to load.
+  const result = ImageManifestSchema.safeParse(manifest);
+  if (!result.success) {
+    console.error(formatManifestProblems(getManifestProblems(result.error, manifest)));
+    process.exit(1);
+  }
+  await fs.writeFile(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+};
+
+// Hints that were left behind as notes rather than describing the photo.
+const PLACEHOLDER_HINTS = new Set(['done', 'todo', 'tbd', 'test', 'image', 'photo']);
+
+const DEFAULT_HINT = 'camp memory';
+
+// Hints are one or two lowercase keywords; anything else is treated as missing.
+export const cleanHint = (hint: string | undefined): string => {
+  const normalized = hint?.trim().toLowerCase().replace(/\s+/g, ' ') ?? '';
+  const words = normalized.split(' ').filter(Boolean);
+  if (words.length === 0 || words.length > 2 || words.some(word => PLACEHOLDER_HINTS.has(word))) {
+    return DEFAULT_HINT;
+  }
+  return normalized;
+};
+
+const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif']);
+
+// Ids follow the existing "<extension>-<name>" scheme, e.g. "jpeg-16" for 16.jpeg.
+export const getImageId = (fileName: string): string => {
+  const extension = path.extname(fileName);
+  return `${extension.slice(1).toLowerCase()}-${path.basename(fileName, extension)}`;
+};
+
+// URL the file is served from, e.g. "/memories/16.jpeg".
+export const getImageUrl = (fileName: string): string => {
+  return `/${path.relative(PUBLIC_DIR, path.join(MEMORIES_DIR, fileName)).split(path.sep).join('/')}`;
+};
+
+// Orders files by their number first so 2.jpeg comes before 10.jpeg, then by extension.
+const compareFileNames = (a: string, b: string): number => {
+  const nameCompare = path.parse(a).name.localeCompare(path.parse(b).name, undefined, { numeric: true });
+  return nameCompare !== 0 ? nameCompare : path.extname(a).localeCompare(path.extname(b));
+};
+
+// Image files directly inside public/memories, in a stable order.
+export const listMemoryFiles = async (): Promise<string[]> => {
+  return (await fs.readdir(MEMORIES_DIR))
+    .filter(fileName => IMAGE_EXTENSIONS.has(path.extname(fileName).toLowerCase()))
+    .sort(compareFileNames);
+};
+
+// Reads the displayed size of an image.
+// EXIF orientations 5-8 rotate the photo by 90 degrees, so the stored width and height swap on screen.
+export const readDimensions = async (filePath: string): Promise<{ width: number; height: number }> => {
+  const metadata = await sharp(filePath).metadata();
+  if (!metadata.width || !metadata.height) {
+    throw new Error(`Could not read dimensions of ${path.relative(ROOT_DIR, filePath)}`);
+  }
+  const isRotated = (metadata.orientation ?? 1) >= 5;
+  return isRotated
+    ? { width: metadata.height, height: metadata.width }
+    : { width: metadata.width, height: metadata.height };
+};
+
+// When and with what a photo was taken, from its EXIF data; either is missing when the photo does not say.
+// Cameras record the local time on their clock, which exif-reader hands back as if it were UTC, so the time is
+// kept as written and only gets a UTC offset when the photo records one.
+export const readCaptureInfo = async (filePath: string): Promise<{ takenAt?: string; camera?: string }> => {
+  const { exif } = await sharp(filePath).metadata();
+  if (!exif) return {};
+  let tags: ReturnType<typeof exifReader>;
+  try {
+    tags = exifReader(exif);
+  } catch {
+    console.warn(`Could not read the EXIF data of ${path.relative(ROOT_DIR, filePath)}`);
+    return {};
+  }
+  const localTime = tags.Photo?.DateTimeOriginal ?? tags.Image?.DateTime;
+  const offset = tags.Photo?.OffsetTimeOriginal;
+  const takenAt = localTime && !Number.isNaN(localTime.getTime())
+    ? `${localTime.toISOString().slice(0, 19)}${offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''}`
+    : undefined;
+  const make = tags.Image?.Make?.trim();
+  const model = tags.Image?.Model?.trim();
+  // Most models already start with the make, e.g. "Canon EOS 200D".
+  const camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model || make;
+  return { takenAt, camera: camera || undefined };
+};
+
+// Reads dimensions and both hashes for a photo in public/memories.
+export const hashMemoryFile = async (fileName: string): Promise<HashedImage> => {
+  const filePath = path.join(MEMORIES_DIR, fileName);
+  const [{ width, height }, contentHash, perceptualHash] = await Promise.all([
+    readDimensions(filePath),
+    computeContentHash(filePath),
+    computePerceptualHash(filePath),
+  ]);
+  return { id: getImageId(fileName), filePath, width, height, contentHash, perceptualHash };
+};
+
+// The models see a downscaled copy of a photo; they need no more detail and the request stays small.
+const MODEL_IMAGE_SIZE = 1024;
+
+// A photo served from `imageUrl`, as the data URI the Genkit flows take.
+export const toDataUri = async (imageUrl: string): Promise<string> => {
+  const buffer = await sharp(path.join(PUBLIC_DIR, imageUrl))
+    .rotate()
+    .resize(MODEL_IMAGE_SIZE, MODEL_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${buffer.toString('base64')}`;
+};
+
+// Reads an optional "--name=value" command line flag.
+export const getFlagValue = (name: string): string | undefined => {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
@@ -0,0 +1,122 @@
+// scripts/tag-memories.ts
+// Writes the tags of memories in src/lib/placeholder-images.json with the tagMemory Genkit flow
+// (src/ai/flows/tag-memory.ts), then rebuilds public/search-index.json, the text embeddings the grid's
+// search ranks photos with. Needs GEMINI_API_KEY, or GENKIT_MODEL=stub/model to try it offline.
+//
+// Usage:
+//   npm run tags                        tag every memory that has no tags yet, then rebuild the search index
+//   npm run tags -- --all               tag every memory again, replacing what is there
+//   npm run tags -- --ids=jpeg-2,jpeg-5 tag just these memories
+//   npm run tags -- --index-only        only rebuild the search index, e.g. after `npm run captions`
+//   npm run tags -- --dry-run           print the tags without writing the manifest or the index
+import { promises as fs } from 'fs';
+import path from 'path';
+import { tagMemory } from '../src/ai/flows/tag-memory';
+import { ai, embedder, isStub } from '../src/ai/genkit';
+import type { ImageManifest } from '../src/lib/image-manifest';
+import { getSearchDocument, getSearchVersion, tokenize, type SearchIndex } from '../src/lib/search';
+import { MANIFEST_PATH, PUBLIC_DIR, ROOT_DIR, getFlagValue, toDataUri, writeManifest } from './lib/memories';
+
+const SEARCH_INDEX_PATH = path.join(PUBLIC_DIR, 'search-index.json');
+
+// Small enough to keep the index a few hundred kilobytes, large enough to tell a parade from a campfire.
+const EMBEDDING_DIMENSIONS = 256;
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Words cadets are likely to search for that the photos' own text may not use, so a search for "bonfire"
+// can still find a photo tagged "campfire".
+const EXTRA_TERMS = [
+  'parade', 'drill', 'march', 'campfire', 'bonfire', 'cultural', 'dance', 'song', 'sports', 'games',
+  'football', 'volleyball', 'tug', 'yoga', 'exercise', 'training', 'shooting', 'rifle', 'firing', 'flag',
+  'salute', 'uniform', 'food', 'meal', 'lunch', 'dinner', 'breakfast', 'tent', 'camp', 'ground', 'field',
+  'stage', 'hall', 'friends', 'group', 'selfie', 'officers', 'certificate', 'award', 'sunset', 'sunrise',
+  'night', 'morning', 'evening', 'rain', 'bus', 'travel',
+];
+
+const encodeVector = (vector: number[]): string => {
+  const length = Math.hypot(...vector) || 1;
+  return Buffer.from(Int8Array.from(vector, value => Math.round((value / length) * 127)).buffer).toString('base64');
+};
+
+const embedTexts = async (texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<string[]> => {
+  const encoded: string[] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const embeddings = await ai.embedMany({
+      embedder,
+      content: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+      options: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS },
+    });
+    encoded.push(...embeddings.map(({ embedding }) => encodeVector(embedding)));
+  }
+  return encoded;
+};
+
+const buildSearchIndex = async ({ placeholderImages: images }: ImageManifest): Promise<SearchIndex> => {
+  const terms = [...new Set([...images.flatMap(image => tokenize(getSearchDocument(image))), ...EXTRA_TERMS])].sort();
+  const imageVectors = await embedTexts(images.map(getSearchDocument), 'RETRIEVAL_DOCUMENT');
+  const termVectors = await embedTexts(terms, 'RETRIEVAL_QUERY');
+  return {
+    textVersion: getSearchVersion(images),
+    dimensions: EMBEDDING_DIMENSIONS,
+    images: Object.fromEntries(images.map((image, i) => [image.id, imageVectors[i]])),
+    terms: Object.fromEntries(terms.map((term, i) => [term, termVectors[i]])),
+  };
+};
+
+const tagMemories = async () => {
+  const tagAll = process.argv.includes('--all');
+  const indexOnly = process.argv.includes('--index-only');
+  const dryRun = process.argv.includes('--dry-run');
+  const ids = getFlagValue('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as ImageManifest;
+  const unknownIds = ids?.filter(id => !manifest.placeholderImages.some(image => image.id === id)) ?? [];
+  if (unknownIds.length > 0) {
+    console.error(`Not in the manifest: ${unknownIds.join(', ')}`);
+    process.exit(1);
+  }
+
+  const images = indexOnly ? [] : manifest.placeholderImages.filter(image => (ids ? ids.includes(image.id) : tagAll || !image.tags));
+  let failed = 0;
+  if (images.length > 0) {
+    console.log(`Tagging ${images.length} memor${images.length === 1 ? 'y' : 'ies'}${dryRun ? ' (dry run)' : ''}...`);
+    for (const image of images) {
+      try {
+        image.tags = await tagMemory({ photoDataUri: await toDataUri(image.imageUrl), description: image.description });
+        const { activity, setting, groupSize, timeOfDay, keywords } = image.tags;
+        console.log(`  ${image.id}: ${activity} / ${setting} / ${groupSize} / ${timeOfDay}\n    keywords: ${keywords.join(', ')}`);
+      } catch (error) {
+        failed++;
+        console.error(`  ${image.id}: failed, ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } else if (!indexOnly) {
+    console.log('Every memory already has tags. Use --all to tag them again.');
+  }
+
+  if (dryRun) return;
+  if (failed < images.length) {
+    await writeManifest(manifest.placeholderImages);
+    console.log(`Updated ${images.length - failed} memor${images.length - failed === 1 ? 'y' : 'ies'} in ${path.relative(ROOT_DIR, MANIFEST_PATH)}.`);
+  }
+
+  // The stub embedder only hashes words, so an index built with it would pass keyword matching off as search.
+  if (isStub) {
+    console.log(`Not writing ${path.relative(ROOT_DIR, SEARCH_INDEX_PATH)}: the stub embedder is for trying the flow only.`);
+  } else {
+    // The index embeds the manifest as written, so it is rebuilt even if some memories could not be tagged.
+    const index = await buildSearchIndex(JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as ImageManifest);
+    await fs.writeFile(SEARCH_INDEX_PATH, `${JSON.stringify(index)}\n`);
+    console.log(`Wrote ${path.relative(ROOT_DIR, SEARCH_INDEX_PATH)} (${Object.keys(index.images).length} memories, ${Object.keys(index.terms).length} terms).`);
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} memor${failed === 1 ? 'y' : 'ies'} could not be tagged.`);
+    process.exit(1);
+  }
+};
+
+tagMemories().catch((error) => {
+  console.error('Error tagging memories:', error);
+  process.exit(1);
+});
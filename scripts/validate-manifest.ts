@@ -0,0 +1,116 @@
+// scripts/validate-manifest.ts
+// Checks src/lib/placeholder-images.json against the manifest schema and the files in public.
+// Runs before every build; exits non-zero with a report naming each bad entry.
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ImageManifestSchema,
+  formatManifestProblems,
+  getManifestProblems,
+  type ImageManifest,
+  type ManifestProblem,
+} from '../src/lib/image-manifest';
+import { CONTENT_HASH_LENGTH } from '../src/lib/content-hash';
+import { getSearchVersion } from '../src/lib/search';
+import { computeContentHash } from './lib/image-hash';
+import { getManifestVersion } from './lib/memories';
+
+const ROOT_DIR = path.resolve(__dirname, '..');
+const PUBLIC_DIR = path.join(ROOT_DIR, 'public');
+const MANIFEST_PATH = path.join(ROOT_DIR, 'src/lib/placeholder-images.json');
+const ALBUMS_PATH = path.join(ROOT_DIR, 'src/lib/albums.json');
+const SEARCH_INDEX_PATH = path.join(PUBLIC_DIR, 'search-index.json');
+
+// Every entry must point at files that will actually be served from public,
+// and a resized copy must match its recorded hash or visitors' cached copies would never verify.
+const findMissingFiles = async (data: unknown): Promise<ManifestProblem[]> => {
+  const entries = (data as { placeholderImages?: unknown })?.placeholderImages;
+  if (!Array.isArray(entries)) return [];
+
+  const problems: ManifestProblem[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const { id, imageUrl, variants } = (entry ?? {}) as { id?: unknown; imageUrl?: unknown; variants?: unknown };
+    const label = typeof id === 'string' && id ? `${id} (entry #${index})` : `entry #${index}`;
+
+    // The original plus every resized copy listed for it, with its hash where there is one.
+    const urls: [string, unknown, unknown][] = [['imageUrl', imageUrl, undefined]];
+    if (variants && typeof variants === 'object') {
+      Object.entries(variants as Record<string, Record<string, unknown>>).forEach(([size, variant]) => {
+        const hashes = variant?.hashes as Record<string, unknown> | undefined;
+        urls.push(
+          [`variants.${size}.webp`, variant?.webp, hashes?.webp],
+          [`variants.${size}.avif`, variant?.avif, hashes?.avif]
+        );
+      });
+    }
+
+    for (const [field, url, hash] of urls) {
+      if (typeof url !== 'string') continue;
+      const filePath = path.join(PUBLIC_DIR, decodeURIComponent(url));
+      const exists = await fs.stat(filePath).then(stats => stats.isFile(), () => false);
+      if (!exists) {
+        problems.push({ entry: label, message: `${field}: ${url} does not exist under public` });
+        continue;
+      }
+      if (typeof hash === 'string') {
+        const actual = (await computeContentHash(filePath)).slice(0, CONTENT_HASH_LENGTH);
+        if (actual !== hash) {
+          problems.push({ entry: label, message: `${field}: ${url} has changed since the manifest was written (hash ${actual}, expected ${hash})` });
+        }
+      }
+    }
+  }
+  return problems;
+};
+
+// A hand edit that forgets to update the version would leave visitors' cached copies looking current.
+const findStaleVersion = (data: unknown): ManifestProblem[] => {
+  const { version, placeholderImages } = (data ?? {}) as { version?: unknown; placeholderImages?: unknown };
+  if (typeof version !== 'string' || !Array.isArray(placeholderImages)) return [];
+  const expected = getManifestVersion(placeholderImages);
+  return version === expected ? [] : [{ entry: 'version', message: `${version} does not match the entries (expected ${expected})` }];
+};
+
+const validateManifestFile = async (): Promise<ManifestProblem[]> => {
+  const data: unknown = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8'));
+  const result = ImageManifestSchema.safeParse(data);
+  const schemaProblems = result.success ? [] : getManifestProblems(result.error, data);
+  return [...schemaProblems, ...findStaleVersion(data), ...(await findMissingFiles(data))];
+};
+
+// Images that no album lists are valid but unreachable from the landing page, which is easy to miss after adding photos.
+const findImagesWithoutAlbum = async (): Promise<string[]> => {
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as { placeholderImages?: { id?: string }[] };
+  const albums = JSON.parse(await fs.readFile(ALBUMS_PATH, 'utf8')) as { albums?: { imageIds?: string[] }[] };
+  const albumIds = new Set((albums.albums ?? []).flatMap(album => album.imageIds ?? []));
+  return (manifest.placeholderImages ?? []).map(image => image.id ?? '').filter(id => id && !albumIds.has(id));
+};
+
+// A search index built from other captions and tags is ignored by the app, which then searches by keyword only.
+const isSearchIndexStale = async (): Promise<boolean> => {
+  const index = await fs.readFile(SEARCH_INDEX_PATH, 'utf8').then(text => JSON.parse(text) as { textVersion?: string }, () => null);
+  if (!index) return false;
+  const manifest = JSON.parse(await fs.readFile(MANIFEST_PATH, 'utf8')) as ImageManifest;
+  return index.textVersion !== getSearchVersion(manifest.placeholderImages);
+};
+
+validateManifestFile()
+  .then(async (problems) => {
+    if (problems.length > 0) {
+      console.error(formatManifestProblems(problems));
+      console.error('Fix the entries above or run `npm run manifest` to regenerate the manifest.');
+      process.exit(1);
+    }
+    const orphans = await findImagesWithoutAlbum();
+    if (orphans.length > 0) {
+      console.warn(`Warning: ${orphans.length} image(s) are not in any album in src/lib/albums.json: ${orphans.join(', ')}`);
+    }
+    if (await isSearchIndexStale()) {
+      console.warn('Warning: public/search-index.json was built from older captions or tags. Run `npm run tags` to update it.');
+    }
+    console.log('Image manifest is valid.');
+  })
+  .catch((error) => {
+    console.error('Error validating image manifest:', error);
+    process.exit(1);
+  });
@@ -1 +1,3 @@
 // Flows will be imported for their side effects in this file.
+import './flows/caption-memory';
+import './flows/tag-memory';
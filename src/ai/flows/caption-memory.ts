@@ -0,0 +1,76 @@
+'use server';
+/**
+ * @fileOverview Writes the caption, accessibility alt text and hint keywords for one memory.
+ *
+ * - captionMemory - Captions a photo.
+ * - CaptionMemoryInput - The input type for the captionMemory function.
+ * - CaptionMemoryOutput - The return type for the captionMemory function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {MAX_ALT_LENGTH} from '@/lib/image-manifest';
+import {z} from 'genkit';
+
+const CaptionMemoryInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "A photo, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  context: z
+    .string()
+    .optional()
+    .describe('Where and when the photo was taken, e.g. the album title and dates.'),
+});
+export type CaptionMemoryInput = z.infer<typeof CaptionMemoryInputSchema>;
+
+const CaptionMemoryOutputSchema = z.object({
+  description: z
+    .string()
+    .describe('A warm, one sentence caption of what the photo shows, shown under it in the gallery.'),
+  altText: z
+    .string()
+    .max(MAX_ALT_LENGTH)
+    .describe(`Alt text for screen reader users: a plain, literal description of the photo in at most ${MAX_ALT_LENGTH} characters.`),
+  hintKeywords: z
+    .array(z.string())
+    .min(1)
+    .max(2)
+    .describe('One or two lowercase keywords for the subject of the photo, e.g. "parade" or "campfire".'),
+});
+export type CaptionMemoryOutput = z.infer<typeof CaptionMemoryOutputSchema>;
+
+export async function captionMemory(input: CaptionMemoryInput): Promise<CaptionMemoryOutput> {
+  return captionMemoryFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'captionMemoryPrompt',
+  input: {schema: CaptionMemoryInputSchema},
+  output: {schema: CaptionMemoryOutputSchema},
+  prompt: `You are captioning photos for Memory Lane, a gallery of memories from NCC (National Cadet Corps) camps.
+
+Describe only what is actually visible in the photo. Do not guess names, and do not invent events.
+{{#if context}}The photo is from: {{{context}}}{{/if}}
+
+Photo: {{media url=photoDataUri}}`,
+});
+
+const captionMemoryFlow = ai.defineFlow(
+  {
+    name: 'captionMemoryFlow',
+    inputSchema: CaptionMemoryInputSchema,
+    outputSchema: CaptionMemoryOutputSchema,
+  },
+  async input => {
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new Error('The model returned no caption.');
+    }
+    return {
+      description: output.description.trim(),
+      altText: output.altText.trim(),
+      hintKeywords: output.hintKeywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean),
+    };
+  }
+);
@@ -0,0 +1,83 @@
+'use server';
+/**
+ * @fileOverview Tags one memory with what is going on, where, how many people it shows and when, for search.
+ *
+ * - tagMemory - Tags a photo.
+ * - TagMemoryInput - The input type for the tagMemory function.
+ * - TagMemoryOutput - The return type for the tagMemory function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {GROUP_SIZES, TIMES_OF_DAY} from '@/lib/image-manifest';
+import {z} from 'genkit';
+
+const TagMemoryInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "A photo, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  description: z
+    .string()
+    .optional()
+    .describe('The caption the photo already has, if any.'),
+});
+export type TagMemoryInput = z.infer<typeof TagMemoryInputSchema>;
+
+const TagMemoryOutputSchema = z.object({
+  activity: z
+    .string()
+    .describe('What the people in the photo are doing, in two or three lowercase words, e.g. "drill parade" or "campfire".'),
+  setting: z
+    .string()
+    .describe('Where the photo was taken, in two or three lowercase words, e.g. "parade ground", "mess hall" or "tent".'),
+  groupSize: z
+    .enum(GROUP_SIZES)
+    .describe('How many people are in the photo: none, one, few (two to five) or many (six or more).'),
+  timeOfDay: z
+    .enum(TIMES_OF_DAY)
+    .describe('When the photo was taken, judging by the light; unknown if it cannot be told, e.g. indoors.'),
+  keywords: z
+    .array(z.string())
+    .max(8)
+    .describe('Up to eight other lowercase keywords someone might search for, e.g. "flag", "rifles" or "uniform".'),
+});
+export type TagMemoryOutput = z.infer<typeof TagMemoryOutputSchema>;
+
+export async function tagMemory(input: TagMemoryInput): Promise<TagMemoryOutput> {
+  return tagMemoryFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'tagMemoryPrompt',
+  input: {schema: TagMemoryInputSchema},
+  output: {schema: TagMemoryOutputSchema},
+  prompt: `You are tagging photos for Memory Lane, a gallery of memories from NCC (National Cadet Corps) camps, so cadets can search for them.
+
+Tag only what is actually visible in the photo. Do not guess names.
+{{#if description}}The photo is captioned: {{{description}}}{{/if}}
+
+Photo: {{media url=photoDataUri}}`,
+});
+
+const tagMemoryFlow = ai.defineFlow(
+  {
+    name: 'tagMemoryFlow',
+    inputSchema: TagMemoryInputSchema,
+    outputSchema: TagMemoryOutputSchema,
+  },
+  async input => {
+    const {output} = await prompt(input);
+    if (!output) {
+      throw new Error('The model returned no tags.');
+    }
+    const keywords = output.keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean);
+    return {
+      activity: output.activity.trim().toLowerCase(),
+      setting: output.setting.trim().toLowerCase(),
+      groupSize: output.groupSize,
+      timeOfDay: output.timeOfDay,
+      keywords: [...new Set(keywords)].slice(0, 8),
+    };
+  }
+);
@@ -1,7 +1,17 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/google-genai';
+import {stubModels} from './stub-models';
+
+// Every flow uses this model. Set GENKIT_MODEL to swap it, e.g. GENKIT_MODEL=stub/model to run the flows
+// offline against a local stub that needs no network or API key.
+const model = process.env.GENKIT_MODEL || 'googleai/gemini-2.5-flash';
+export const isStub = model.startsWith('stub/');
+
+// Text embeddings for search; the stub model comes with a stub embedder.
+export const embedder = isStub ? 'stub/embedder' : 'googleai/gemini-embedding-001';
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.5-flash',
+  // The Google AI plugin wants an API key as soon as it loads, so it is left out when running on a stub.
+  plugins: isStub ? [stubModels] : [googleAI(), stubModels],
+  model,
 });
@@ -0,0 +1,79 @@
+import {createHash} from 'crypto';
+import {genkitPlugin} from 'genkit/plugin';
+
+// Local stand-ins for the real models, registered as "stub/model" and "stub/embedder". They answer instantly and
+// deterministically without a network or API key, so the flows and the scripts built on them can be tried and
+// tested offline.
+
+const STUB_EMBEDDING_DIMENSIONS = 256;
+
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+};
+
+// The simplest value that fits a JSON schema. Strings name the hash of the request, so different inputs
+// get different (but repeatable) answers.
+const stubValue = (schema: JsonSchema | undefined, seed: string): unknown => {
+  if (schema?.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema?.type) ? schema.type[0] : schema?.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema?.properties ?? {}).map(([key, value]) => [key, stubValue(value, seed)]));
+    case 'array':
+      return Array.from({length: Math.max(1, schema?.minItems ?? 0)}, () => stubValue(schema?.items, seed));
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `stub ${seed}`;
+  }
+};
+
+// Spreads each word of the text over a few dimensions picked by its hash: texts that share words point the
+// same way, which is enough to exercise similarity search without a real model.
+const stubEmbedding = (text: string, dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const hash = createHash('sha256').update(word).digest();
+    for (let i = 0; i < 4; i++) {
+      vector[hash.readUInt16BE(i * 2) % dimensions] += hash[8 + i] % 2 === 0 ? 1 : -1;
+    }
+  }
+  const length = Math.hypot(...vector) || 1;
+  return vector.map(value => value / length);
+};
+
+export const stubModels = genkitPlugin('stub', async (ai) => {
+  ai.defineModel(
+    {
+      name: 'stub/model',
+      label: 'Stub model',
+      supports: {media: true, multiturn: false, output: ['json', 'text'], constrained: 'all'},
+    },
+    async (request) => {
+      const seed = createHash('sha256').update(JSON.stringify(request.messages)).digest('hex').slice(0, 8);
+      const output = request.output?.schema ? stubValue(request.output.schema as JsonSchema, seed) : `stub ${seed}`;
+      return {
+        message: {role: 'model', content: [{text: typeof output === 'string' ? output : JSON.stringify(output)}]},
+        finishReason: 'stop',
+      };
+    }
+  );
+
+  ai.defineEmbedder(
+    {
+      name: 'stub/embedder',
+      info: {label: 'Stub embedder', dimensions: STUB_EMBEDDING_DIMENSIONS, supports: {input: ['text']}},
+    },
+    async (input, options) => {
+      const dimensions = (options as {outputDimensionality?: number} | undefined)?.outputDimensionality ?? STUB_EMBEDDING_DIMENSIONS;
+      return {embeddings: input.map(document => ({embedding: stubEmbedding(document.text, dimensions)}))};
+    }
+  );
+});
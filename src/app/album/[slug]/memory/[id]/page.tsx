@@ -0,0 +1,47 @@
+import { notFound } from 'next/navigation';
+import { AlbumGallery } from '@/components/album-gallery';
+import { AllAlbums, getAlbum, getAlbumImages } from '@/lib/albums';
+import { Metadata } from 'next';
+
+type AlbumMemoryPageProps = {
+  params: Promise<{ slug: string; id: string }>;
+};
+
+// Only images that belong to the album have pages; anything else is a 404.
+export const dynamicParams = false;
+
+// Pre-render one page per memory in every album so each photo has a shareable link.
+export function generateStaticParams() {
+  return AllAlbums.flatMap((album) => album.imageIds.map((id) => ({ slug: album.slug, id })));
+}
+
+const findMemory = async (params: AlbumMemoryPageProps['params']) => {
+  const { slug, id } = await params;
+  const album = getAlbum(slug);
+  const image = album && getAlbumImages(album).find((img) => img.id === decodeURIComponent(id));
+  return album && image ? { album, image } : null;
+};
+
+export async function generateMetadata({ params }: AlbumMemoryPageProps): Promise<Metadata> {
+  const memory = await findMemory(params);
+  if (!memory) return {};
+
+  const { album, image } = memory;
+  return {
+    title: `${album.title} · Memory Lane`,
+    description: image.description,
+    openGraph: {
+      title: album.title,
+      description: image.description,
+      images: [{ url: image.imageUrl, width: image.width, height: image.height }],
+    },
+  };
+}
+
+export default async function AlbumMemoryPage({ params }: AlbumMemoryPageProps) {
+  const memory = await findMemory(params);
+  if (!memory) notFound();
+
+  // The linked image opens first; the rest of the album follows in a random order as usual.
+  return <AlbumGallery album={memory.album} initialImage={memory.image} />;
+}
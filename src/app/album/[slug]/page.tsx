@@ -0,0 +1,40 @@
+import { notFound } from 'next/navigation';
+import { AlbumGallery } from '@/components/album-gallery';
+import { AllAlbums, getAlbum, getAlbumCover } from '@/lib/albums';
+import { Metadata } from 'next';
+
+type AlbumPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+// Only the albums in albums.json have pages; anything else is a 404.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return AllAlbums.map((album) => ({ slug: album.slug }));
+}
+
+export async function generateMetadata({ params }: AlbumPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const album = getAlbum(slug);
+  if (!album) return {};
+
+  const cover = getAlbumCover(album);
+  return {
+    title: `${album.title} · Memory Lane`,
+    description: album.description,
+    openGraph: {
+      title: album.title,
+      description: album.description,
+      images: [{ url: cover.imageUrl, width: cover.width, height: cover.height }],
+    },
+  };
+}
+
+export default async function AlbumPage({ params }: AlbumPageProps) {
+  const { slug } = await params;
+  const album = getAlbum(slug);
+  if (!album) notFound();
+
+  return <AlbumGallery album={album} />;
+}
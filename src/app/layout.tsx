@@ -7,6 +7,8 @@ export const metadata: Metadata = {
   title: 'Memory Lane',
   description: 'A nostalgic journey through your memories.',
   manifest: '/manifest.json',
+  // Absolute base for shared links and social preview images.
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'https://ncc2024.netlify.app'),
 };
 
 export default function RootLayout({
@@ -0,0 +1,48 @@
+import { notFound } from 'next/navigation';
+import { AlbumGallery } from '@/components/album-gallery';
+import { AllImages } from '@/lib/placeholder-images';
+import { getAlbumForImage } from '@/lib/albums';
+import { Metadata } from 'next';
+
+type MemoryPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+// Only images that belong to an album have pages; anything else is a 404.
+export const dynamicParams = false;
+
+// Links shared before albums existed keep working: each opens the image inside the first album that holds it,
+// and the gallery then replaces the address with the album's own URL for that image.
+export function generateStaticParams() {
+  return AllImages.filter((image) => getAlbumForImage(image.id)).map((image) => ({ id: image.id }));
+}
+
+const findMemory = async (params: MemoryPageProps['params']) => {
+  const { id } = await params;
+  const image = AllImages.find((img) => img.id === decodeURIComponent(id));
+  const album = image && getAlbumForImage(image.id);
+  return image && album ? { album, image } : null;
+};
+
+export async function generateMetadata({ params }: MemoryPageProps): Promise<Metadata> {
+  const memory = await findMemory(params);
+  if (!memory) return {};
+
+  const { album, image } = memory;
+  return {
+    title: `${album.title} · Memory Lane`,
+    description: image.description,
+    openGraph: {
+      title: album.title,
+      description: image.description,
+      images: [{ url: image.imageUrl, width: image.width, height: image.height }],
+    },
+  };
+}
+
+export default async function MemoryPage({ params }: MemoryPageProps) {
+  const memory = await findMemory(params);
+  if (!memory) notFound();
+
+  return <AlbumGallery album={memory.album} initialImage={memory.image} />;
+}
@@ -1,6 +1,10 @@
-import { MemoryGallery } from '@/components/memory-gallery';
+import { AlbumList } from '@/components/album-list';
 import { ImageCacher } from '@/components/image-cacher';
-import { AllImages, PortraitImages } from '@/lib/placeholder-images';
+import { OfflinePanel } from '@/components/offline-panel';
+import { NewMemoriesNotice } from '@/components/new-memories-notice';
+import { AllImages, ManifestVersion, PortraitImages } from '@/lib/placeholder-images';
+import { AllAlbums, formatAlbumDates, getAlbumCover, getAlbumImageIds } from '@/lib/albums';
+import { getAlbumPath } from '@/lib/memory-routes';
 import { Metadata } from 'next';
 
 export const metadata: Metadata = {
@@ -8,25 +12,27 @@ export const metadata: Metadata = {
   description: 'A nostalgic journey through your memories.',
 };
 
-// This function shuffles an array and returns a new shuffled array.
-// This ensures a random order for the images in the gallery.
-const getShuffledArray = <T,>(arr: T[]): T[] => {
-  return [...arr].sort(() => Math.random() - 0.5);
-};
-
 export default function Home() {
   // Get a random portrait image for the initial blurred background on the landing page.
   const initialBgImage = PortraitImages.length > 0 
     ? PortraitImages[Math.floor(Math.random() * PortraitImages.length)]
     : AllImages[0];
-  
-  // Shuffle all images to provide a random initial order for the gallery.
-  const shuffledImages = getShuffledArray(AllImages);
+
+  const albums = AllAlbums.map((album) => ({
+    href: getAlbumPath(album.slug),
+    title: album.title,
+    dates: formatAlbumDates(album),
+    description: album.description,
+    imageCount: album.imageIds.length,
+    cover: getAlbumCover(album),
+  }));
 
   return (
     <main className="font-body bg-background">
-      <ImageCacher images={AllImages} />
-      <MemoryGallery allImages={shuffledImages} initialBgImage={initialBgImage} />
+      <ImageCacher images={AllImages} manifestVersion={ManifestVersion} />
+      <NewMemoriesNotice imageIds={getAlbumImageIds()} manifestVersion={ManifestVersion} />
+      <AlbumList albums={albums} backgroundImage={initialBgImage} />
+      <OfflinePanel />
     </main>
   );
 }
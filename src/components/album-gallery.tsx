@@ -0,0 +1,40 @@
+// src/components/album-gallery.tsx
+import { MemoryGallery } from '@/components/memory-gallery';
+import { ImageCacher } from '@/components/image-cacher';
+import { OfflinePanel } from '@/components/offline-panel';
+import { NewMemoriesNotice } from '@/components/new-memories-notice';
+import { AllImages, ManifestVersion, type ImagePlaceholder } from '@/lib/placeholder-images';
+import { formatAlbumDates, getAlbumCover, getAlbumImageIds, getAlbumImages, type Album } from '@/lib/albums';
+import { getAlbumPath } from '@/lib/memory-routes';
+import { getNamedPeople } from '@/lib/people';
+import { getSearchVersion } from '@/lib/search';
+
+// Server-side wrapper that scopes the gallery and the frozen grid to one album.
+export function AlbumGallery({ album, initialImage }: { album: Album; initialImage?: ImagePlaceholder }) {
+  const albumImages = getAlbumImages(album);
+  const portraitImages = albumImages.filter((img) => img.orientation === 'portrait');
+
+  // Get a random portrait image for the initial blurred background on the landing page, or the linked image itself.
+  const initialBgImage = initialImage
+    ?? (portraitImages.length > 0 ? portraitImages[Math.floor(Math.random() * portraitImages.length)] : getAlbumCover(album));
+
+  return (
+    <main className="font-body bg-background">
+      {/* Every album shares one offline cache, so the cacher always gets the full image list. */}
+      <ImageCacher images={AllImages} manifestVersion={ManifestVersion} />
+      <NewMemoriesNotice imageIds={getAlbumImageIds()} manifestVersion={ManifestVersion} />
+      <MemoryGallery
+        allImages={albumImages}
+        initialBgImage={initialBgImage}
+        initialImage={initialImage}
+        title={album.title}
+        subtitle={formatAlbumDates(album)}
+        basePath={getAlbumPath(album.slug)}
+        startDate={album.startDate}
+        people={getNamedPeople(albumImages)}
+        searchVersion={getSearchVersion(AllImages)}
+      />
+      <OfflinePanel />
+    </main>
+  );
+}
@@ -0,0 +1,91 @@
+// src/components/album-list.tsx
+"use client";
+
+import Image from 'next/image';
+import Link from 'next/link';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+import { useImageFormat } from '@/hooks/use-image-format';
+import { useOfflineImage } from '@/hooks/use-offline-image';
+import { BACKGROUND_VARIANT, getPlaceholderStyle, getVariantUrl } from '@/lib/image-variants';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+// What the landing page needs to show for one album.
+export type AlbumSummary = {
+  href: string;
+  title: string;
+  dates: string;
+  description?: string;
+  imageCount: number;
+  cover: ImagePlaceholder;
+};
+
+interface AlbumListProps {
+  albums: AlbumSummary[];
+  backgroundImage: ImagePlaceholder;
+}
+
+// Landing page of the site: every album as a card over a blurred background photo.
+export function AlbumList({ albums, backgroundImage }: AlbumListProps) {
+  const imageFormat = useImageFormat();
+  const bgImageSource = useOfflineImage(imageFormat ? backgroundImage.variants[BACKGROUND_VARIANT][imageFormat] : null);
+
+  return (
+    <div className="fixed inset-0 bg-background overflow-hidden select-none">
+      <div
+        aria-hidden
+        className="absolute inset-0 transform-gpu scale-110 blur-xl brightness-75"
+        style={getPlaceholderStyle(backgroundImage)}
+      />
+      {bgImageSource && <Image
+        src={bgImageSource}
+        alt="Blurred background"
+        fill
+        className="object-cover transform-gpu scale-110 blur-xl brightness-75"
+        priority
+      />}
+
+      <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
+        <h1 className="text-5xl md:text-7xl font-headline text-white/90 drop-shadow-lg mb-8 text-center" style={{ textShadow: '0 2px 10px rgba(0,0,0,0.3)'}}>
+          Memory Lane
+        </h1>
+        <ScrollArea className="w-full max-w-5xl max-h-[70%]">
+          <div className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {albums.map(album => (
+              <AlbumCard key={album.href} album={album} />
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+      <div className="absolute bottom-4 right-4 text-xs text-white/30 pointer-events-none">
+        created by AIsahil
+      </div>
+    </div>
+  );
+}
+
+function AlbumCard({ album }: { album: AlbumSummary }) {
+  const imageFormat = useImageFormat();
+  const coverSource = useOfflineImage(imageFormat ? getVariantUrl(album.cover, 400, imageFormat) : null);
+
+  return (
+    <Link
+      href={album.href}
+      className="group block rounded-lg overflow-hidden bg-black/30 backdrop-blur-sm shadow-lg transition-all hover:scale-105 hover:shadow-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <div className="relative aspect-[4/3]" style={getPlaceholderStyle(album.cover)}>
+        {coverSource && <Image
+          src={coverSource}
+          alt={album.cover.alt ?? album.cover.description}
+          fill
+          className="object-cover"
+          sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+        />}
+      </div>
+      <div className="p-4 text-white">
+        <h2 className="text-2xl font-headline text-white/90">{album.title}</h2>
+        <p className="text-sm text-white/60">{album.dates} · {album.imageCount} memories</p>
+        {album.description && <p className="mt-2 text-sm text-white/80">{album.description}</p>}
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,82 @@
+// src/components/date-filter.tsx
+"use client";
+
+import { useCallback, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { DateRange, DayContentProps } from 'react-day-picker';
+import { CalendarDays, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+import { formatDateFilter, getPhotoCountsByDate, type DateFilter as DateFilterValue } from '@/lib/timeline';
+
+const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+interface DateFilterProps {
+  // Every image that could be filtered, for the counts on each day.
+  images: ImagePlaceholder[];
+  value: DateFilterValue | null;
+  onChange: (value: DateFilterValue | null) => void;
+}
+
+// Calendar picker for the frozen grid: days with photos are highlighted with their count, and picking a day,
+// or a first and last day, narrows the gallery to the photos taken then.
+export function DateFilter({ images, value, onChange }: DateFilterProps) {
+  const counts = useMemo(() => getPhotoCountsByDate(images), [images]);
+  const photoDays = useMemo(() => [...counts.keys()].sort().map(date => parseISO(date)), [counts]);
+
+  // The day's number with its photo count underneath, if it has any.
+  const DayWithCount = useCallback(({ date }: DayContentProps) => {
+    const count = counts.get(toIsoDate(date));
+    return (
+      <span className="flex flex-col items-center leading-none">
+        <span>{date.getDate()}</span>
+        {count && <span className="mt-0.5 text-[0.6rem] opacity-70">{count}</span>}
+      </span>
+    );
+  }, [counts]);
+
+  // Nothing to pick from when no photo has a date.
+  if (photoDays.length === 0) return null;
+
+  const selected: DateRange | undefined = value ? { from: parseISO(value.from), to: parseISO(value.to) } : undefined;
+
+  const handleSelect = (range: DateRange | undefined) => {
+    if (!range?.from) {
+      onChange(null);
+      return;
+    }
+    const from = toIsoDate(range.from);
+    onChange({ from, to: range.to ? toIsoDate(range.to) : from });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="bg-black/30 border-white/20 text-white hover:bg-black/50 hover:text-white">
+            <CalendarDays size={16} className="mr-2" />
+            {value ? formatDateFilter(value) : 'Any date'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-auto p-0">
+          <Calendar
+            mode="range"
+            selected={selected}
+            onSelect={handleSelect}
+            defaultMonth={selected?.from ?? photoDays[0]}
+            modifiers={{ hasPhotos: photoDays }}
+            modifiersClassNames={{ hasPhotos: 'font-bold ring-1 ring-inset ring-primary/60' }}
+            components={{ DayContent: DayWithCount }}
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button aria-label="Show every date" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => onChange(null)}>
+          <X size={16} />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+// src/components/frozen-image-tile.tsx
+"use client";
+
+import { useEffect, useRef } from 'react';
+import Image from 'next/image';
+import { useOfflineImage } from '@/hooks/use-offline-image';
+import { prioritizeOfflineImages } from '@/hooks/use-offline-sync';
+import { useImageFormat } from '@/hooks/use-image-format';
+import { getGridTileWidth, getPlaceholderStyle, getVariantUrl } from '@/lib/image-variants';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+
+// A tile of the frozen grid and the timeline, loaded through the offline cache.
+export function FrozenImageTile({ image, onClick }: { image: ImagePlaceholder; onClick: () => void; }) {
+  const imageFormat = useImageFormat();
+  const tileUrl = imageFormat ? getVariantUrl(image, getGridTileWidth(), imageFormat) : null;
+  const imageSource = useOfflineImage(tileUrl);
+
+  // Tiles scrolled into view jump the offline download queue.
+  const tileRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const tile = tileRef.current;
+    if (!tile || !tileUrl) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) prioritizeOfflineImages([tileUrl]);
+    });
+    observer.observe(tile);
+    return () => observer.disconnect();
+  }, [tileUrl]);
+
+  return (
+    <div ref={tileRef} className="relative aspect-square rounded-md overflow-hidden cursor-pointer group" style={getPlaceholderStyle(image)} onClick={onClick}>
+      {imageSource && <Image
+        src={imageSource}
+        alt={image.alt ?? image.description}
+        fill
+        className="object-cover transition-transform duration-300 group-hover:scale-110"
+        sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+      />}
+      <div className="absolute inset-0 bg-black/20 group-hover:bg-black/40 transition-colors"></div>
+    </div>
+  )
+}
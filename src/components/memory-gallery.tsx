@@ -1,14 +1,16 @@
 // src/components/memory-gallery.tsx
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Image from 'next/image';
 import anime from 'animejs';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Button } from '@/components/ui/button';
-import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { cn, getShuffledArray } from '@/lib/utils';
 import type { ImagePlaceholder } from '@/lib/placeholder-images';
-import { ArrowLeft, ArrowRight, Grid, Image as ImageIcon, X, Expand, Minimize } from 'lucide-react';
+import Link from 'next/link';
+import { ArrowLeft, ArrowRight, Grid, Image as ImageIcon, X, Expand, Minimize, Share2, Library, Play, Search, Clock } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   AlertDialog,
@@ -19,66 +21,98 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { getImage } from '@/lib/indexed-db';
-
-// Custom hook to get an image from IndexedDB or fall back to network.
-const useOfflineImage = (imageUrl: string | null) => {
-  const [source, setSource] = useState<string | null>(imageUrl);
-
-  useEffect(() => {
-    if (!imageUrl) return;
-
-    let isMounted = true;
-    const fetchImage = async () => {
-      const cachedBlob = await getImage(imageUrl);
-      if (isMounted) {
-        if (cachedBlob) {
-          setSource(URL.createObjectURL(cachedBlob));
-        } else {
-          setSource(imageUrl); // Fallback to network URL
-        }
-      }
-    };
-
-    fetchImage();
-
-    return () => {
-      isMounted = false;
-      // Revoke object URL to prevent memory leaks if it was created
-      if (source && source.startsWith('blob:')) {
-        URL.revokeObjectURL(source);
-      }
-    };
-  }, [imageUrl]); // source is intentionally omitted from deps
-
-  return source;
-};
+import { useOfflineImage } from '@/hooks/use-offline-image';
+import { prioritizeOfflineImages } from '@/hooks/use-offline-sync';
+import { getGalleryPath, parseGalleryPath, type GalleryMode } from '@/lib/memory-routes';
+import { toast } from '@/hooks/use-toast';
+import { useImageFormat } from '@/hooks/use-image-format';
+import { DEFAULT_SLIDESHOW_SETTINGS, SlideshowControls, type SlideshowSettings } from '@/components/slideshow-controls';
+import { ZoomMinimap } from '@/components/zoom-minimap';
+import { FrozenImageTile } from '@/components/frozen-image-tile';
+import { MemoryTimeline } from '@/components/memory-timeline';
+import { DateFilter } from '@/components/date-filter';
+import { filterByDate, formatDateFilter, type DateFilter as DateFilterValue } from '@/lib/timeline';
+import { BACKGROUND_VARIANT, getPlaceholderStyle, getSwipeDisplayWidth, getVariantUrl, needsOriginal } from '@/lib/image-variants';
+import { getViewingCycle, storeViewingCycle, type ViewingCycle } from '@/lib/indexed-db';
+import { resumeViewingCycle, toViewingCycle } from '@/lib/viewing-cycle';
+import { useZoomPan } from '@/hooks/use-zoom-pan';
+import { DEFAULT_ZOOM, getMaxZoom } from '@/lib/zoom';
+import { loadSearchIndex, searchImages, type SearchIndex } from '@/lib/search';
+import type { NamedPerson } from '@/lib/people';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
+// Direction of travel through the viewing history, used to orient transitions.
+type NavigationDirection = 'forward' | 'backward';
 
 // Props for the component, specifying the images it will manage.
 interface MemoryGalleryProps {
+  // The images in album order; the gallery shuffles them itself for the swipe view.
   allImages: ImagePlaceholder[];
   initialBgImage: ImagePlaceholder;
+  // When set (e.g. from a /memory/[id] link), the gallery opens straight into swipe mode on this image.
+  initialImage?: ImagePlaceholder;
+  // Heading of the landing view, usually the album title, and the line shown under it.
+  title: string;
+  subtitle?: string;
+  // Path the gallery's own URLs are built under, e.g. "/album/ncc-atc-camp".
+  basePath: string;
+  // First day of the album, which the timeline numbers the days of the camp from.
+  startDate?: string;
+  // Named people in these images, for the People filter of the frozen grid; see src/lib/people.json.
+  people?: NamedPerson[];
+  // getSearchVersion of every image in the manifest, so a search index built from other captions and tags is not used.
+  searchVersion: string;
 }
 
-export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps) {
-  // State to track which view is active: landing, swipe gallery, or frozen grid.
-  const [galleryMode, setGalleryMode] = useState<'landing' | 'swipe' | 'frozen'>('landing');
+// Value of the People filter when it shows everyone; any other value is a person's name.
+const EVERYONE = '*';
+
+export function MemoryGallery({ allImages, initialBgImage, initialImage, title, subtitle, basePath, startDate, people = [], searchVersion }: MemoryGalleryProps) {
+  // State to track which view is active: landing, swipe gallery, frozen grid, or timeline.
+  const [galleryMode, setGalleryMode] = useState<GalleryMode>(initialImage ? 'swipe' : 'landing');
   // State for the image currently being viewed by the user.
-  const [currentImage, setCurrentImage] = useState<ImagePlaceholder | null>(null);
+  const [currentImage, setCurrentImage] = useState<ImagePlaceholder | null>(initialImage ?? null);
+  // State for the images the user has actually viewed, in order, and where the current image sits in it.
+  const [viewHistory, setViewHistory] = useState<ImagePlaceholder[]>(initialImage ? [initialImage] : []);
+  const [historyIndex, setHistoryIndex] = useState(initialImage ? 0 : -1);
   // State for the next image to be shown, which is preloaded in the background.
-  const [nextImage, setNextImage] = useState<ImagePlaceholder | null>(allImages[0]);
+  // Both it and the queue stay empty until the visitor's saved cycle has been loaded.
+  const [nextImage, setNextImage] = useState<ImagePlaceholder | null>(null);
   // State for the queue of images that have not yet been seen in the current cycle.
-  const [unseenImageQueue, setUnseenImageQueue] = useState<ImagePlaceholder[]>(allImages.slice(1));
+  const [unseenImageQueue, setUnseenImageQueue] = useState<ImagePlaceholder[]>([]);
+  // State for the image the visitor was last looking at, shown again when they next open the swipe view.
+  const [resumeImage, setResumeImage] = useState<ImagePlaceholder | null>(null);
+  const [isCycleRestored, setIsCycleRestored] = useState(false);
   // State to control the visibility of desktop navigation hints.
   const [showHints, setShowHints] = useState(false);
   // State to control the locked (zoomed) view of an image.
   const [isLocked, setIsLocked] = useState(false);
   // State to track fullscreen status
   const [isFullScreen, setIsFullScreen] = useState(false);
+  // State for the slideshow: whether it is on, paused by the user, and its speed and order.
+  const [isSlideshowActive, setIsSlideshowActive] = useState(false);
+  const [isSlideshowPaused, setIsSlideshowPaused] = useState(false);
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(DEFAULT_SLIDESHOW_SETTINGS);
   
   // State for first-visit tutorials
   const [isFirstVisit, setIsFirstVisit] = useState(false);
+  // Search of the frozen grid, offered once its index of text embeddings has loaded; it is fetched when the grid opens.
+  // Until `npm run tags` has written an index for the current captions and tags, there is no search box.
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState<SearchIndex | null>(null);
+  // Name of the person the frozen grid is narrowed to.
+  const [selectedPerson, setSelectedPerson] = useState(EVERYONE);
+  // Dates picked on the frozen grid's calendar. They narrow both the grid and the photos the swipe view draws next.
+  const [dateFilter, setDateFilter] = useState<DateFilterValue | null>(null);
+  const dateFilteredImages = useMemo(() => (dateFilter ? filterByDate(allImages, dateFilter) : allImages), [allImages, dateFilter]);
+  // The swipe view ignores a filter that matches nothing rather than run out of photos.
+  const swipeImages = dateFilteredImages.length > 0 ? dateFilteredImages : allImages;
   const [showMobileWarning, setShowMobileWarning] = useState(false);
 
 
@@ -86,18 +120,31 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   const isMobile = useIsMobile();
 
   const imageContainerRef = useRef<HTMLDivElement>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
   const isAnimating = useRef(false);
-  const isPanning = useRef(false);
-  const panStart = useRef({ x: 0, y: 0 });
-  const panPosition = useRef({ x: 0, y: 0 });
-  const didPan = useRef(false); // Track if a pan occurred during a pointer down
+  // The images the queue was last restored for, so it is not saved while the cycle of others is still loading.
+  const restoredSwipeImages = useRef<ImagePlaceholder[] | null>(null);
+
+  // Pick the smallest resized copy that still looks sharp where each image is shown.
+  // The locked view asks for a copy sharp enough for the default zoom, which is also what gets cached for offline use.
+  const imageFormat = useImageFormat();
+  const getSwipeUrl = (image: ImagePlaceholder | null, zoom = 1) =>
+    image && imageFormat ? getVariantUrl(image, getSwipeDisplayWidth(image, isMobile) * zoom, imageFormat) : null;
+  const getBackgroundUrl = (image: ImagePlaceholder) =>
+    imageFormat ? image.variants[BACKGROUND_VARIANT][imageFormat] : null;
 
   // Use our custom hook to get the right image source (DB or network)
-  const currentImageSource = useOfflineImage(currentImage?.imageUrl ?? null);
-  const nextImageSource = useOfflineImage(nextImage?.imageUrl ?? null);
-  const initialBgSource = useOfflineImage(initialBgImage.imageUrl);
-  const bgImageSource = useOfflineImage(galleryMode === 'swipe' && currentImage ? currentImage.imageUrl : initialBgImage.imageUrl);
+  const currentImageSource = useOfflineImage(getSwipeUrl(currentImage, isLocked ? DEFAULT_ZOOM : 1));
+  const nextImageSource = useOfflineImage(getSwipeUrl(nextImage));
+  const initialBgSource = useOfflineImage(getBackgroundUrl(initialBgImage));
+  const bgImage = galleryMode === 'swipe' && currentImage ? currentImage : initialBgImage;
+  const bgImageSource = useOfflineImage(getBackgroundUrl(bgImage));
+
+  // Have the offline sync fetch what the visitor is looking at and is about to see before the rest.
+  const currentSwipeUrl = getSwipeUrl(currentImage);
+  const nextSwipeUrl = getSwipeUrl(nextImage);
+  useEffect(() => {
+    prioritizeOfflineImages([currentSwipeUrl, nextSwipeUrl].filter((url): url is string => url !== null));
+  }, [currentSwipeUrl, nextSwipeUrl]);
 
 
   // Check for first visit on mount
@@ -114,33 +161,78 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   }, []);
 
 
-  // Core function to transition to the next image.
-  const showNextImage = useCallback(() => {
-    if (isAnimating.current || !nextImage || isLocked) return;
+  // Restore the slideshow speed and order the user picked last time.
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('memoryLaneSlideshow') ?? 'null');
+      if (saved) setSlideshowSettings({ ...DEFAULT_SLIDESHOW_SETTINGS, ...saved });
+    } catch {
+      localStorage.removeItem('memoryLaneSlideshow');
+    }
+  }, []);
+
+  const updateSlideshowSettings = (settings: SlideshowSettings) => {
+    setSlideshowSettings(settings);
+    localStorage.setItem('memoryLaneSlideshow', JSON.stringify(settings));
+  };
+
+
+  // Pick up the visitor's cycle through this album where they left it, or start a fresh shuffle.
+  // The deep-linked image, if any, is already on screen, so it counts as seen.
+  useEffect(() => {
+    let isCancelled = false;
+    const startCycle = (saved: ViewingCycle | null) => {
+      if (isCancelled) return;
+      restoredSwipeImages.current = swipeImages;
+      const queue = resumeViewingCycle(swipeImages, saved, initialImage?.id);
+      setNextImage(queue[0] ?? null);
+      setUnseenImageQueue(queue.slice(1));
+      if (!initialImage) {
+        setResumeImage(swipeImages.find(img => img.id === saved?.currentImageId) ?? null);
+      }
+      setIsCycleRestored(true);
+    };
+
+    getViewingCycle(basePath)
+      .then(startCycle)
+      .catch(error => {
+        console.error('Could not restore viewing cycle:', error);
+        startCycle(null);
+      });
+    return () => { isCancelled = true; };
+  }, [swipeImages, initialImage, basePath]);
+
+  // Save the cycle whenever it moves on, so a reload carries on from here.
+  // A cycle narrowed to some dates is not saved, as it would count every other photo as seen; nor is the queue
+  // left over from one while the full cycle is still being restored after the dates are cleared.
+  useEffect(() => {
+    if (!isCycleRestored || dateFilter || restoredSwipeImages.current !== swipeImages) return;
+    const upcoming = nextImage ? [nextImage, ...unseenImageQueue] : unseenImageQueue;
+    const currentImageId = currentImage?.id ?? resumeImage?.id ?? null;
+    storeViewingCycle(toViewingCycle(basePath, allImages, upcoming, currentImageId))
+      .catch(error => console.error('Could not save viewing cycle:', error));
+  }, [isCycleRestored, dateFilter, swipeImages, nextImage, unseenImageQueue, currentImage, resumeImage, allImages, basePath]);
+
+
+  // Fades the current image out towards the direction of travel, swaps it, then slides the new one in.
+  const animateTransition = useCallback((direction: NavigationDirection, swapImage: () => void) => {
     isAnimating.current = true;
+    const offset = direction === 'forward' ? -40 : 40;
 
     anime({
       targets: imageContainerRef.current,
       opacity: 0,
+      translateX: offset,
       scale: 0.98,
       duration: 400,
       easing: 'easeInCubic',
       complete: () => {
-        setCurrentImage(nextImage);
-        
-        let queue = unseenImageQueue;
-        if (queue.length === 0) {
-          queue = [...allImages].filter(img => img.id !== nextImage.id).sort(() => Math.random() - 0.5);
-        }
-
-        const newNextImage = queue[0];
-        const newQueue = queue.slice(1);
-        setNextImage(newNextImage);
-        setUnseenImageQueue(newQueue);
+        swapImage();
 
         anime({
           targets: imageContainerRef.current,
-          opacity: 1,
+          opacity: [0, 1],
+          translateX: [-offset, 0],
           scale: 1,
           duration: 400,
           easing: 'easeOutCubic',
@@ -150,16 +242,96 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
         });
       },
     });
-  }, [nextImage, unseenImageQueue, allImages, isLocked]);
-  
-  const handleSwipe = useCallback(() => {
+  }, []);
+
+  // Jumping straight to an image drops any forward history, like following a link in a browser.
+  const jumpToImage = useCallback((image: ImagePlaceholder) => {
+    setCurrentImage(image);
+    setViewHistory([...viewHistory.slice(0, historyIndex + 1), image]);
+    setHistoryIndex(historyIndex + 1);
+  }, [viewHistory, historyIndex]);
+
+  // Marks an image as seen in the current cycle and makes sure a different image is lined up next.
+  // Once every image has been seen, a fresh shuffled cycle begins.
+  const consumeFromQueue = useCallback((shownImage: ImagePlaceholder) => {
+    let queue = unseenImageQueue.filter(img => img.id !== shownImage.id);
+    if (nextImage && nextImage.id !== shownImage.id) {
+      setUnseenImageQueue(queue);
+      return;
+    }
+
+    if (queue.length === 0) {
+      const scope = dateFilter && swipeImages !== allImages ? `from ${formatDateFilter(dateFilter)}` : `in ${title}`;
+      toast({
+        title: "You've seen every memory",
+        description: `That was the last of all ${swipeImages.length} photos ${scope}. Keep going for a fresh shuffle.`,
+      });
+      queue = getShuffledArray(swipeImages.filter(img => img.id !== shownImage.id));
+    }
+
+    const newNextImage = queue[0];
+    const newQueue = queue.slice(1);
+    setNextImage(newNextImage);
+    setUnseenImageQueue(newQueue);
+  }, [nextImage, unseenImageQueue, swipeImages, allImages, dateFilter, title]);
+
+  // Core function to transition to the next image.
+  // Moves forward through the viewing history first, and only draws a new image once the history is exhausted.
+  const showNextImage = useCallback(() => {
+    if (isAnimating.current || isLocked) return;
+
+    if (historyIndex < viewHistory.length - 1) {
+      const forwardIndex = historyIndex + 1;
+      animateTransition('forward', () => {
+        setCurrentImage(viewHistory[forwardIndex]);
+        setHistoryIndex(forwardIndex);
+      });
+      return;
+    }
+
+    if (!nextImage) return;
+
+    animateTransition('forward', () => {
+      jumpToImage(nextImage);
+      consumeFromQueue(nextImage);
+    });
+  }, [nextImage, isLocked, viewHistory, historyIndex, animateTransition, jumpToImage, consumeFromQueue]);
+
+  // Transitions forward to a specific image, e.g. the next one in album order.
+  const showImage = useCallback((image: ImagePlaceholder) => {
+    if (isAnimating.current || isLocked) return;
+
+    animateTransition('forward', () => {
+      jumpToImage(image);
+      consumeFromQueue(image);
+    });
+  }, [isLocked, animateTransition, jumpToImage, consumeFromQueue]);
+
+  // Steps back through the images the user has already seen.
+  const showPreviousImage = useCallback(() => {
+    if (isAnimating.current || isLocked || historyIndex <= 0) return;
+
+    const previousIndex = historyIndex - 1;
+    animateTransition('backward', () => {
+      setCurrentImage(viewHistory[previousIndex]);
+      setHistoryIndex(previousIndex);
+    });
+  }, [isLocked, viewHistory, historyIndex, animateTransition]);
+
+  const canGoBack = historyIndex > 0;
+
+  const handleSwipe = useCallback((direction: NavigationDirection = 'forward') => {
     if (isLocked) return;
     if (isFirstVisit) {
       localStorage.setItem('hasVisitedMemoryLane', 'true');
       setIsFirstVisit(false);
     }
-    showNextImage();
-  }, [showNextImage, isLocked, isFirstVisit]);
+    if (direction === 'backward') {
+      showPreviousImage();
+    } else {
+      showNextImage();
+    }
+  }, [showNextImage, showPreviousImage, isLocked, isFirstVisit]);
 
   // Handler to start the gallery from the landing page.
   const startGallery = () => {
@@ -170,13 +342,56 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
     setGalleryMode('frozen');
   }
 
+  useEffect(() => {
+    if (galleryMode !== 'frozen' || searchIndex) return;
+    let cancelled = false;
+    loadSearchIndex(searchVersion).then(index => {
+      if (!cancelled) setSearchIndex(index);
+    });
+    return () => { cancelled = true; };
+  }, [galleryMode, searchIndex, searchVersion]);
+
+  // Images from the picked dates of the selected person, or everyone; ranked by the query while one is typed,
+  // otherwise in album order.
+  const frozenImages = useMemo(() => {
+    const personIds = people.find(person => person.name === selectedPerson)?.personIds;
+    const images = personIds
+      ? dateFilteredImages.filter(image => image.people?.some(id => personIds.includes(id)))
+      : dateFilteredImages;
+    return searchQuery.trim() ? searchImages(images, searchQuery, searchIndex) : images;
+  }, [dateFilteredImages, people, selectedPerson, searchQuery, searchIndex]);
+
+  // A photo picked from the grid counts as seen, so it does not come round again in this cycle.
   const handleFrozenImageClick = (image: ImagePlaceholder) => {
-    setCurrentImage(image);
+    jumpToImage(image);
+    consumeFromQueue(image);
     setGalleryMode('swipe');
   }
 
+  // Called by the slideshow timer. Shuffled playback follows the usual unseen queue;
+  // ordered playback steps through the album, wrapping around at the end.
+  const advanceSlideshow = useCallback(() => {
+    if (slideshowSettings.order === 'shuffle' || !currentImage) {
+      showNextImage();
+      return;
+    }
+    const index = swipeImages.findIndex(img => img.id === currentImage.id);
+    showImage(swipeImages[(index + 1) % swipeImages.length]);
+  }, [slideshowSettings.order, currentImage, swipeImages, showNextImage, showImage]);
+
+  const startSlideshow = () => {
+    setIsSlideshowPaused(false);
+    setIsSlideshowActive(true);
+  };
+
+  // The slideshow only makes sense in the swipe view, so leaving it stops playback.
+  useEffect(() => {
+    if (galleryMode !== 'swipe') setIsSlideshowActive(false);
+  }, [galleryMode]);
+
   const returnToLanding = () => {
     setGalleryMode('landing');
+    setResumeImage(currentImage);
     setCurrentImage(null);
   }
   
@@ -188,23 +403,48 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
       setIsFirstVisit(false);
     }
 
-    const newIsLocked = !isLocked;
-    setIsLocked(newIsLocked);
+    // The zoom hook animates to the default zoom, or back to rest, when the lock changes.
+    setIsLocked(!isLocked);
+  }, [isLocked, currentImage, isFirstVisit]);
 
-    // Reset transform on unlock
-    if (!newIsLocked && imageRef.current) {
-        panPosition.current = { x: 0, y: 0 };
-        anime.remove(imageRef.current);
-        anime({
-            targets: imageRef.current,
-            translateX: 0,
-            translateY: 0,
-            scale: 1,
-            duration: 300,
-            easing: 'easeOutCubic'
-        });
+  // Pinch, wheel and double-tap zoom on the current image, up to its full resolution.
+  const swipeDisplayWidth = currentImage ? getSwipeDisplayWidth(currentImage, isMobile) : 0;
+  const zoomPan = useZoomPan({
+    maxZoom: currentImage ? getMaxZoom(currentImage, swipeDisplayWidth) : DEFAULT_ZOOM,
+    isLocked,
+    onLockChange: setIsLocked,
+    onTap: toggleLock,
+  });
+  // Past what the cached copy can show, the original photo is laid over it once it has loaded.
+  const originalImageSource = useOfflineImage(
+    isLocked && currentImage && needsOriginal(currentImage, swipeDisplayWidth * zoomPan.zoom) ? currentImage.imageUrl : null
+  );
+
+  // Shares a link to the current image, falling back to copying it when the Web Share API is unavailable.
+  const shareCurrentImage = useCallback(async () => {
+    if (!currentImage) return;
+    const url = new URL(getGalleryPath(basePath, 'swipe', currentImage.id), window.location.origin).toString();
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Memory Lane', text: currentImage.description, url });
+      } catch (error) {
+        // The user dismissing the share sheet is not an error worth reporting.
+        if ((error as DOMException).name !== 'AbortError') {
+          console.error('Error sharing memory:', error);
+        }
+      }
+      return;
     }
-  }, [isLocked, currentImage, isFirstVisit]);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied', description: 'Send it to a friend to share this memory.' });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({ variant: 'destructive', title: 'Could not copy link', description: url });
+    }
+  }, [currentImage, basePath]);
 
   const toggleFullScreen = useCallback(() => {
     if (!document.fullscreenElement) {
@@ -217,102 +457,74 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   }, []);
 
   // This effect runs once the gallery becomes active, triggering the first image transition.
+  // A returning visitor first sees the image they left off on.
   useEffect(() => {
     if (galleryMode === 'swipe' && !currentImage) {
-      showNextImage();
+      if (resumeImage) {
+        jumpToImage(resumeImage);
+        setResumeImage(null);
+      } else {
+        showNextImage();
+      }
       setShowHints(true);
       const timer = setTimeout(() => setShowHints(false), 3000);
       return () => clearTimeout(timer);
     }
-  }, [galleryMode, showNextImage, currentImage]);
+  }, [galleryMode, showNextImage, currentImage, resumeImage, jumpToImage]);
 
-  // Panning logic for zoomed-in image
+  // Restore the view from the URL on first load, e.g. the grid opened from a shared /?view=frozen link.
+  // Until this has run, the URL is the source of truth and must not be overwritten.
+  const [isUrlRestored, setIsUrlRestored] = useState(false);
   useEffect(() => {
-    const container = imageContainerRef.current;
-    if (!container) return;
-  
-    const onPointerDown = (e: PointerEvent) => {
-        // We only care about pointer downs on the image itself
-        if (e.target !== imageRef.current) return;
-        
-        e.preventDefault();
-        e.stopPropagation();
-
-        didPan.current = false;
-        if (isLocked) {
-            isPanning.current = true;
-            panStart.current = { x: e.clientX - panPosition.current.x, y: e.clientY - panPosition.current.y };
-            imageRef.current?.style.setProperty('cursor', 'grabbing');
-            anime.remove(imageRef.current);
-        }
-    };
-
-    const onPointerMove = (e: PointerEvent) => {
-        if (!isPanning.current || !isLocked || !imageRef.current) return;
-        
-        const panThreshold = 5; // To distinguish between click and pan
-        const currentPanX = e.clientX - panStart.current.x;
-        const currentPanY = e.clientY - panStart.current.y;
-        
-        if (!didPan.current && (Math.abs(currentPanX - panPosition.current.x) > panThreshold || Math.abs(currentPanY - panPosition.current.y) > panThreshold)) {
-            didPan.current = true; // A significant move has occurred
-        }
-
-        if (didPan.current) {
-            let newX = currentPanX;
-            let newY = currentPanY;
-
-            const imageEl = imageRef.current;
-            const imageRect = imageEl.getBoundingClientRect();
-            
-            // The image is scaled by 2, so its display size is bigger
-            const scaledWidth = imageRect.width; 
-            const scaledHeight = imageRect.height;
-            
-            // Max travel distance from center (based on the scaled size)
-            const maxX = Math.max(0, (scaledWidth - container.clientWidth) / 2);
-            const maxY = Math.max(0, (scaledHeight - container.clientHeight) / 2);
-            
-            newX = Math.max(-maxX, Math.min(maxX, newX));
-            newY = Math.max(-maxY, Math.min(maxY, newY));
+    const location = parseGalleryPath(window.location.pathname, window.location.search);
+    if (location.galleryMode === 'frozen' || location.galleryMode === 'timeline') {
+      setGalleryMode(location.galleryMode);
+    }
+    setIsUrlRestored(true);
+  }, []);
 
-            panPosition.current = { x: newX, y: newY };
-            // Apply transform directly for immediate feedback, dividing by scale factor
-            imageEl.style.transform = `scale(2) translateX(${newX / 2}px) translateY(${newY / 2}px)`;
-        }
-    };
+  // Keep the URL in sync with what is on screen.
+  // Changing view adds a browser history entry, while moving between images only replaces it,
+  // so the back button leaves the gallery instead of stepping through every photo.
+  const lastSyncedMode = useRef(galleryMode);
+  useEffect(() => {
+    if (!isUrlRestored || (galleryMode === 'swipe' && !currentImage)) return;
 
-    const onPointerUp = (e: PointerEvent) => {
-        // Only trigger on up if it's on the image
-        if (e.target !== imageRef.current && !isPanning.current) return;
-        e.stopPropagation();
+    const path = getGalleryPath(basePath, galleryMode, currentImage?.id);
+    if (path === window.location.pathname + window.location.search) {
+      lastSyncedMode.current = galleryMode;
+      return;
+    }
 
-        // If we didn't pan, it was a click, so toggle lock state
-        if (!didPan.current) {
-            toggleLock();
-        }
+    const state = { galleryMode, imageId: currentImage?.id ?? null };
+    if (lastSyncedMode.current === galleryMode) {
+      window.history.replaceState(state, '', path);
+    } else {
+      window.history.pushState(state, '', path);
+    }
+    lastSyncedMode.current = galleryMode;
+  }, [galleryMode, currentImage, isUrlRestored, basePath]);
 
-        isPanning.current = false;
-        
-        if (imageRef.current) {
-            imageRef.current.style.cursor = isLocked ? 'grab' : 'zoom-in';
+  // Restore the matching view when the user moves through browser history with back/forward.
+  useEffect(() => {
+    const handlePopState = () => {
+      const location = parseGalleryPath(window.location.pathname, window.location.search);
+      lastSyncedMode.current = location.galleryMode;
+      if (isLocked) toggleLock();
+
+      if (location.galleryMode === 'swipe') {
+        const image = allImages.find(img => img.id === location.imageId);
+        if (image && image.id !== currentImage?.id) {
+          jumpToImage(image);
         }
+      } else if (location.galleryMode === 'landing') {
+        setCurrentImage(null);
+      }
+      setGalleryMode(location.galleryMode);
     };
-    
-    // We attach down and up to the image itself, but move to the window
-    // to allow dragging outside the image bounds.
-    const imageElement = imageRef.current;
-    imageElement?.addEventListener('pointerdown', onPointerDown);
-    window.addEventListener('pointermove', onPointerMove);
-    window.addEventListener('pointerup', onPointerUp);
-    
-    return () => {
-        imageElement?.removeEventListener('pointerdown', onPointerDown);
-        window.removeEventListener('pointermove', onPointerMove);
-        window.removeEventListener('pointerup', onPointerUp);
-    }
-
-  }, [isLocked, toggleLock]);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [allImages, currentImage, isLocked, toggleLock, jumpToImage]);
 
   // Effect for handling swipe gestures on touch devices.
   useEffect(() => {
@@ -320,18 +532,29 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
 
     let touchStartX = 0;
     let touchStartY = 0;
+    let isMultiTouch = false;
     const handleTouchStart = (e: TouchEvent) => {
+      // A second finger means a pinch on the image, which is not a swipe.
+      isMultiTouch = e.touches.length > 1 || (isMultiTouch && e.touches.length > 0);
+      if (e.touches.length > 1) return;
       touchStartX = e.changedTouches[0].screenX;
       touchStartY = e.changedTouches[0].screenY;
     };
     const handleTouchEnd = (e: TouchEvent) => {
+      if (isMultiTouch) {
+        isMultiTouch = e.touches.length > 0;
+        return;
+      }
       const touchEndX = e.changedTouches[0].screenX;
       const touchEndY = e.changedTouches[0].screenY;
       const deltaX = touchEndX - touchStartX;
       const deltaY = touchEndY - touchStartY;
       const swipeThreshold = 50;
 
-      if (Math.abs(deltaX) > swipeThreshold || Math.abs(deltaY) > swipeThreshold) {
+      // A rightward swipe pulls the previous image back in; anything else moves forward.
+      if (Math.abs(deltaX) > swipeThreshold && Math.abs(deltaX) >= Math.abs(deltaY)) {
+        handleSwipe(deltaX > 0 ? 'backward' : 'forward');
+      } else if (Math.abs(deltaY) > swipeThreshold) {
         handleSwipe();
       }
     };
@@ -348,12 +571,21 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (galleryMode !== 'swipe') return;
+      // Leave keys alone while the slideshow controls, the offline panel, or a dropdown or popover they opened have focus.
+      if ((e.target as HTMLElement | null)?.closest?.('[data-slideshow-controls], [data-offline-panel], [role="listbox"], [role="dialog"]')) return;
       if (isLocked) {
         if(e.key === 'Escape') toggleLock();
         return;
       }
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      // Space still presses a focused button or link; any other key keeps its usual job, e.g. Tab moving focus.
+      const isOnControl = !!(e.target as HTMLElement | null)?.closest?.('button, a, input, select, textarea, [role="button"]');
+      let direction: NavigationDirection;
+      if (e.key === 'ArrowLeft') direction = 'backward';
+      else if (e.key === 'ArrowRight' || (e.key === ' ' && !isOnControl)) direction = 'forward';
+      else return;
       e.preventDefault();
-      handleSwipe();
+      handleSwipe(direction);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
@@ -392,7 +624,12 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   // Main render method for the component.
   return (
     <div className="fixed inset-0 bg-background overflow-hidden select-none">
-      {/* Background Image: A blurred version of an image for atmosphere. */}
+      {/* Background Image: A blurred version of an image for atmosphere, over its inline preview while it loads. */}
+      <div
+        aria-hidden
+        className="absolute inset-0 transform-gpu scale-110 blur-xl brightness-75 transition-all duration-1000"
+        style={getPlaceholderStyle(bgImage)}
+      />
       {bgImageSource && <Image
         key={bgImageSource}
         src={bgImageSource}
@@ -434,114 +671,201 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
 
       {galleryMode === 'swipe' ? (
         // Gallery View: Displayed after the user clicks the "Memories" button.
-        <div className="relative w-full h-full flex items-center justify-center p-4" ref={imageContainerRef}>
-          {/* Arrow navigation hints for desktop, with hover and timed visibility. */}
-          {!isLocked && (
-             <>
-              <Button aria-label="Previous image" variant="ghost" size="icon" className={cn("absolute left-4 md:left-8 z-20 text-white/50 hover:text-white hover:bg-white/10 transition-opacity duration-300", showHints ? "opacity-100" : "opacity-0 hover:opacity-100 focus:opacity-100")} onClick={(e) => { e.stopPropagation(); handleSwipe()}}><ArrowLeft size={32} /></Button>
-              <Button aria-label="Next image" variant="ghost" size="icon" className={cn("absolute right-4 md:right-8 z-20 text-white/50 hover:text-white hover:bg-white/10 transition-opacity duration-300", showHints ? "opacity-100" : "opacity-0 hover:opacity-100 focus:opacity-100")} onClick={(e) => { e.stopPropagation(); handleSwipe()}}><ArrowRight size={32} /></Button>
-              <div className="absolute top-4 left-4 z-20 flex gap-2">
-                <Button aria-label="Show all images" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('frozen')}><Grid size={24} /></Button>
-                <Button aria-label="Toggle fullscreen" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={toggleFullScreen}>
-                  {isFullScreen ? <Minimize size={24} /> : <Expand size={24} />}
-                </Button>
-              </div>
-            </>
-          )}
-          
-          {/* First visit tutorial hints */}
-          {isFirstVisit && !isLocked && (
-            <div className="absolute inset-0 pointer-events-none z-30 flex items-center justify-center">
-              <div className="relative w-full h-full">
-                  {/* Swipe hint */}
-                  <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/50 text-white p-3 rounded-lg text-center animate-pulse">
-                      <p>Swipe or use arrow keys to navigate</p>
-                  </div>
-                  {/* Other hints positioned around the screen */}
-                  <p className="absolute top-16 left-4 bg-black/50 text-white p-2 rounded-lg text-sm">Grid View & Fullscreen</p>
-                  <p className="absolute bottom-1/4 left-1/2 -translate-x-1/2 bg-black/50 text-white p-2 rounded-lg text-sm">Tap photo to zoom & pan</p>
+        <>
+          <div className="relative w-full h-full flex items-center justify-center p-4" ref={imageContainerRef}>
+            {/* Arrow navigation hints for desktop, with hover and timed visibility. */}
+            {!isLocked && (
+               <>
+                <Button aria-label="Previous image" variant="ghost" size="icon" disabled={!canGoBack} className={cn("absolute left-4 md:left-8 z-20 text-white/50 hover:text-white hover:bg-white/10 transition-opacity duration-300", showHints ? "opacity-100" : "opacity-0 hover:opacity-100 focus:opacity-100")} onClick={(e) => { e.stopPropagation(); handleSwipe('backward')}}><ArrowLeft size={32} /></Button>
+                <Button aria-label="Next image" variant="ghost" size="icon" className={cn("absolute right-4 md:right-8 z-20 text-white/50 hover:text-white hover:bg-white/10 transition-opacity duration-300", showHints ? "opacity-100" : "opacity-0 hover:opacity-100 focus:opacity-100")} onClick={(e) => { e.stopPropagation(); handleSwipe('forward')}}><ArrowRight size={32} /></Button>
+                <div className="absolute top-4 left-4 z-20 flex gap-2">
+                  <Button aria-label="Show all images" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('frozen')}><Grid size={24} /></Button>
+                  <Button aria-label="Toggle fullscreen" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={toggleFullScreen}>
+                    {isFullScreen ? <Minimize size={24} /> : <Expand size={24} />}
+                  </Button>
+                  <Button aria-label="Share this memory" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={shareCurrentImage}><Share2 size={24} /></Button>
+                  {!isSlideshowActive && (
+                    <Button aria-label="Start slideshow" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={startSlideshow}><Play size={24} /></Button>
+                  )}
+                </div>
+              </>
+            )}
+            
+            {/* First visit tutorial hints */}
+            {isFirstVisit && !isLocked && (
+              <div className="absolute inset-0 pointer-events-none z-30 flex items-center justify-center">
+                <div className="relative w-full h-full">
+                    {/* Swipe hint */}
+                    <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-black/50 text-white p-3 rounded-lg text-center animate-pulse">
+                        <p>Swipe or use arrow keys to navigate</p>
+                    </div>
+                    {/* Other hints positioned around the screen */}
+                    <p className="absolute top-16 left-4 bg-black/50 text-white p-2 rounded-lg text-sm">Grid View & Fullscreen</p>
+                    <p className="absolute bottom-1/4 left-1/2 -translate-x-1/2 bg-black/50 text-white p-2 rounded-lg text-sm">Tap photo to zoom & pan</p>
+                </div>
               </div>
-            </div>
-          )}
-
+            )}
 
-          {isLocked && (
-            <Button
-              aria-label="Close zoomed view"
-              variant="ghost"
-              size="icon"
-              className="absolute top-4 right-4 z-50 text-white/70 hover:text-white hover:bg-white/20 rounded-full transition-all"
-              onClick={(e) => { e.stopPropagation(); toggleLock() }}
-            >
-              <X size={32} />
-            </Button>
-          )}
+            {isLocked && currentImage && (
+              <ZoomMinimap image={currentImage} subscribeToRegion={zoomPan.subscribeToRegion} onNavigate={zoomPan.centerOn} />
+            )}
 
-          {/* This container holds the visible image and is the target for animations. */}
-          <div 
-            className="relative drop-shadow-2xl transition-transform duration-500 ease-in-out opacity-0"
-            style={{ perspective: '1000px', opacity: currentImage ? 1 : 0 }}
-          >
-            {currentImage && currentImageSource && (
-              <div 
-                className={cn(
-                  "relative bg-black/30 rounded-lg overflow-hidden shadow-2xl transition-all duration-300 ease-in-out",
-                   isLocked ? "cursor-grab" : "cursor-zoom-in"
-                )}
-                style={getImageSizeStyle()}
-                onClick={() => {
-                  if (isFirstVisit) {
-                    localStorage.setItem('hasVisitedMemoryLane', 'true');
-                    setIsFirstVisit(false);
-                  }
-                }}
+            {isLocked && (
+              <Button
+                aria-label="Close zoomed view"
+                variant="ghost"
+                size="icon"
+                className="absolute top-4 right-4 z-50 text-white/70 hover:text-white hover:bg-white/20 rounded-full transition-all"
+                onClick={(e) => { e.stopPropagation(); toggleLock() }}
               >
-                <Image
-                  ref={imageRef}
-                  key={currentImage.id}
-                  src={currentImageSource}
-                  alt={currentImage.description}
-                  width={currentImage.width}
-                  height={currentImage.height}
+                <X size={32} />
+              </Button>
+            )}
+
+            {/* This container holds the visible image and is the target for animations. */}
+            <div 
+              className="relative drop-shadow-2xl transition-transform duration-500 ease-in-out opacity-0"
+              style={{ perspective: '1000px', opacity: currentImage ? 1 : 0 }}
+            >
+              {currentImage && (
+                <div 
                   className={cn(
-                    "object-contain w-full h-full will-change-transform", // will-change-transform for smoother panning
-                    isLocked ? "scale-[2]" : "scale-100",
-                    isPanning.current ? "transition-none" : "transition-transform duration-300 ease-in-out" // Disable transition during pan
+                    "relative bg-black/30 rounded-lg overflow-hidden shadow-2xl transition-all duration-300 ease-in-out",
+                     isLocked ? "cursor-grab" : "cursor-zoom-in"
                   )}
-                  style={{ transformOrigin: 'center' }}
-                  data-ai-hint={currentImage.imageHint}
-                  quality={100}
-                  priority
-                  sizes={isMobile ? "90vw" : "85vh"}
-                />
-              </div>
-            )}
+                  style={{ ...getPlaceholderStyle(currentImage), ...getImageSizeStyle() }}
+                  onClick={() => {
+                    if (isFirstVisit) {
+                      localStorage.setItem('hasVisitedMemoryLane', 'true');
+                      setIsFirstVisit(false);
+                    }
+                  }}
+                >
+                  {currentImageSource && (
+                    // The zoom hook moves and scales this layer directly; touch-none leaves pinching to it.
+                    <div
+                      key={currentImage.id}
+                      ref={zoomPan.ref}
+                      className="relative w-full h-full will-change-transform touch-none"
+                      style={{ transformOrigin: 'center' }}
+                    >
+                      <Image
+                        src={currentImageSource}
+                        alt={currentImage.alt ?? currentImage.description}
+                        width={currentImage.width}
+                        height={currentImage.height}
+                        className="object-contain w-full h-full"
+                        draggable={false}
+                        data-ai-hint={currentImage.imageHint}
+                        quality={100}
+                        priority
+                        sizes={isMobile ? "90vw" : "85vh"}
+                      />
+                      {originalImageSource && <OriginalImageLayer src={originalImageSource} alt={currentImage.alt ?? currentImage.description} />}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+
+          {/* Outside the animated container so the controls stay put while photos change. Stays mounted while zoomed
+              so the countdown pauses instead of starting over. */}
+          {isSlideshowActive && (
+            <SlideshowControls
+              settings={slideshowSettings}
+              onSettingsChange={updateSlideshowSettings}
+              isPausedByUser={isSlideshowPaused}
+              onPausedByUserChange={setIsSlideshowPaused}
+              isPausedByGallery={isLocked}
+              resetKey={currentImage?.id}
+              onAdvance={advanceSlideshow}
+              onStop={() => setIsSlideshowActive(false)}
+            />
+          )}
+        </>
       ) : galleryMode === 'frozen' ? (
         // Frozen Grid View
         <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
           <Button aria-label="Return to landing" variant="ghost" size="icon" className="absolute top-4 left-4 z-20 text-white/50 hover:text-white hover:bg-white/10" onClick={returnToLanding}><ArrowLeft size={24} /></Button>
-          <Button aria-label="Back to swipe view" variant="ghost" size="icon" className="absolute top-4 right-4 z-20 text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('swipe')}><ImageIcon size={24} /></Button>
+          <div className="absolute top-4 right-4 z-20 flex gap-2">
+            <Button aria-label="Show timeline" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('timeline')}><Clock size={24} /></Button>
+            <Button aria-label="Back to swipe view" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('swipe')}><ImageIcon size={24} /></Button>
+          </div>
           
           <h2 className="text-3xl md:text-4xl font-headline text-white/90 drop-shadow-lg my-4" style={{ textShadow: '0 2px 10px rgba(0,0,0,0.3)'}}>
             Frozen Memories
           </h2>
-          <ScrollArea className="w-full h-[80%] bg-black/20 rounded-lg">
-            <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {allImages.map(image => (
-                <FrozenImageTile key={image.id} image={image} onClick={() => handleFrozenImageClick(image)} />
-              ))}
-            </div>
+          <div className="flex flex-wrap justify-center w-full max-w-3xl gap-2 mb-4">
+            {searchIndex && (
+              <div className="relative flex-1 min-w-[12rem]">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-white/50 pointer-events-none" />
+                <Input
+                  type="search"
+                  aria-label="Search memories"
+                  placeholder="Search, e.g. drill parade or campfire"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-9 bg-black/30 border-white/20 text-white placeholder:text-white/40"
+                />
+              </div>
+            )}
+            {people.length > 0 && (
+              <Select value={selectedPerson} onValueChange={setSelectedPerson}>
+                <SelectTrigger aria-label="People" className="w-44 bg-black/30 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                  {people.map(person => (
+                    <SelectItem key={person.name} value={person.name}>{person.name} ({person.imageCount})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <DateFilter images={allImages} value={dateFilter} onChange={setDateFilter} />
+          </div>
+          <ScrollArea className="w-full h-[72%] bg-black/20 rounded-lg">
+            {frozenImages.length > 0 ? (
+              <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {frozenImages.map(image => (
+                  <FrozenImageTile key={image.id} image={image} onClick={() => handleFrozenImageClick(image)} />
+                ))}
+              </div>
+            ) : (
+              <p className="p-8 text-center text-white/60">
+                {searchQuery.trim() ? <>No memories match &ldquo;{searchQuery.trim()}&rdquo;.</> : 'No memories to show.'}
+              </p>
+            )}
           </ScrollArea>
         </div>
+      ) : galleryMode === 'timeline' ? (
+        // Timeline View: the grid grouped by when each photo was taken.
+        <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
+          <Button aria-label="Return to landing" variant="ghost" size="icon" className="absolute top-4 left-4 z-20 text-white/50 hover:text-white hover:bg-white/10" onClick={returnToLanding}><ArrowLeft size={24} /></Button>
+          <div className="absolute top-4 right-4 z-20 flex gap-2">
+            <Button aria-label="Show all images" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('frozen')}><Grid size={24} /></Button>
+            <Button aria-label="Back to swipe view" variant="ghost" size="icon" className="text-white/50 hover:text-white hover:bg-white/10" onClick={() => setGalleryMode('swipe')}><ImageIcon size={24} /></Button>
+          </div>
+
+          <h2 className="text-3xl md:text-4xl font-headline text-white/90 drop-shadow-lg my-4" style={{ textShadow: '0 2px 10px rgba(0,0,0,0.3)'}}>
+            Timeline
+          </h2>
+          <MemoryTimeline images={allImages} startDate={startDate} onImageClick={handleFrozenImageClick} />
+        </div>
       ) : (
-        // Landing Page View: The initial screen of the application.
-        <div className="w-full h-full flex flex-col items-center justify-center p-4">
-          <div className="text-center">
-            <h1 className="text-5xl md:text-7xl font-headline text-white/90 drop-shadow-lg mb-8" style={{ textShadow: '0 2px 10px rgba(0,0,0,0.3)'}}>
-              Memory Lane
+        // Landing Page View: The initial screen of the album.
+        <div className="relative w-full h-full flex flex-col items-center justify-center p-4">
+          <Button asChild aria-label="All albums" variant="ghost" size="icon" className="absolute top-4 left-4 z-20 text-white/50 hover:text-white hover:bg-white/10">
+            <Link href="/"><Library size={24} /></Link>
+          </Button>
+          <div className="relative text-center">
+            <h1 className={cn("text-5xl md:text-7xl font-headline text-white/90 drop-shadow-lg", subtitle ? "mb-2" : "mb-8")} style={{ textShadow: '0 2px 10px rgba(0,0,0,0.3)'}}>
+              {title}
             </h1>
+            {subtitle && (
+              <p className="text-lg text-white/70 drop-shadow mb-8">{subtitle}</p>
+            )}
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Button
                 onClick={startGallery}
@@ -556,6 +880,13 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
               >
                 Frozen
               </Button>
+              <Button
+                onClick={() => setGalleryMode('timeline')}
+                variant="secondary"
+                className="bg-secondary/80 hover:bg-secondary text-secondary-foreground text-lg font-semibold px-8 py-6 rounded-lg backdrop-blur-sm transition-all hover:scale-105 active:scale-100 shadow-lg hover:shadow-xl"
+              >
+                Timeline
+              </Button>
             </div>
           </div>
         </div>
@@ -567,19 +898,18 @@ export function MemoryGallery({ allImages, initialBgImage }: MemoryGalleryProps)
   );
 }
 
-// A new component for the grid view tiles to use the offline hook
-function FrozenImageTile({ image, onClick }: { image: ImagePlaceholder; onClick: () => void; }) {
-  const imageSource = useOfflineImage(image.imageUrl);
+// Full-resolution copy of a deeply zoomed photo, faded in over the resized one once it has downloaded.
+function OriginalImageLayer({ src, alt }: { src: string; alt: string }) {
+  const [isLoaded, setIsLoaded] = useState(false);
   return (
-    <div className="relative aspect-square rounded-md overflow-hidden cursor-pointer group" onClick={onClick}>
-      {imageSource && <Image
-        src={imageSource}
-        alt={image.description}
-        fill
-        className="object-cover transition-transform duration-300 group-hover:scale-110"
-        sizes="(max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-      />}
-      <div className="absolute inset-0 bg-black/20 group-hover:bg-black/40 transition-colors"></div>
-    </div>
-  )
+    <Image
+      src={src}
+      alt={alt}
+      fill
+      className={cn("object-contain transition-opacity duration-300", isLoaded ? "opacity-100" : "opacity-0")}
+      draggable={false}
+      onLoad={() => setIsLoaded(true)}
+      sizes="100vw"
+    />
+  );
 }
@@ -0,0 +1,139 @@
+// src/components/memory-timeline.tsx
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FrozenImageTile } from '@/components/frozen-image-tile';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+import { formatTimelineDay, formatTimelineHour, getTimeline } from '@/lib/timeline';
+import { cn } from '@/lib/utils';
+
+const UNDATED_KEY = 'undated';
+
+// A stop on the scrubber: one per hour with photos, plus one for the undated photos.
+type ScrubberMark = {
+  key: string;
+  label: string;
+  // Set on the first hour of each day, which the scrubber labels with the day.
+  dayLabel?: string;
+};
+
+interface MemoryTimelineProps {
+  images: ImagePlaceholder[];
+  // First day of the camp, e.g. the album's start date, which the days are numbered from.
+  startDate?: string;
+  onImageClick: (image: ImagePlaceholder) => void;
+}
+
+// The grid grouped by the day and hour each photo was taken, with the day pinned at the top while scrolling
+// and a scrubber alongside to jump between hours.
+export function MemoryTimeline({ images, startDate, onImageClick }: MemoryTimelineProps) {
+  const timeline = useMemo(() => getTimeline(images, startDate), [images, startDate]);
+  const sectionRefs = useRef(new Map<string, HTMLElement>());
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const isScrubbing = useRef(false);
+
+  const marks = useMemo<ScrubberMark[]>(() => [
+    ...timeline.days.flatMap(day => day.hours.map((slot, index) => ({
+      key: slot.key,
+      label: formatTimelineHour(slot.hour),
+      dayLabel: index === 0 ? formatTimelineDay(day) : undefined,
+    }))),
+    ...(timeline.undated.length > 0 ? [{ key: UNDATED_KEY, label: 'Undated', dayLabel: 'Undated' }] : []),
+  ], [timeline]);
+
+  const setSectionRef = (key: string) => (element: HTMLElement | null) => {
+    if (element) sectionRefs.current.set(key, element);
+    else sectionRefs.current.delete(key);
+  };
+
+  // Highlights the hour at the top of the scrolled view on the scrubber.
+  useEffect(() => {
+    const observer = new IntersectionObserver((entries) => {
+      const visible = entries.filter(entry => entry.isIntersecting);
+      if (visible.length > 0) setActiveKey((visible[0].target as HTMLElement).dataset.timelineKey ?? null);
+    }, { rootMargin: '0px 0px -80% 0px' });
+    sectionRefs.current.forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [marks]);
+
+  const scrollToMark = (key: string) => {
+    sectionRefs.current.get(key)?.scrollIntoView({ block: 'start' });
+    setActiveKey(key);
+  };
+
+  // Dragging along the scrubber jumps to whichever mark is under the pointer.
+  const scrubTo = (event: React.PointerEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const index = Math.floor(((event.clientY - rect.top) / rect.height) * marks.length);
+    const mark = marks[Math.min(marks.length - 1, Math.max(0, index))];
+    if (mark && mark.key !== activeKey) scrollToMark(mark.key);
+  };
+
+  return (
+    <div className="flex w-full h-[80%] gap-2">
+      <ScrollArea className="flex-1 bg-black/20 rounded-lg">
+        {timeline.days.map(day => (
+          <section key={day.date}>
+            <h3 className="sticky top-0 z-10 px-4 py-2 bg-black/60 backdrop-blur-sm text-lg font-headline text-white/90">
+              {formatTimelineDay(day)}
+            </h3>
+            {day.hours.map(slot => (
+              <div key={slot.key} ref={setSectionRef(slot.key)} data-timeline-key={slot.key} className="scroll-mt-12 px-4 pb-4">
+                <h4 className="py-2 text-sm text-white/60">{formatTimelineHour(slot.hour)}</h4>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {slot.images.map(image => (
+                    <FrozenImageTile key={image.id} image={image} onClick={() => onImageClick(image)} />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </section>
+        ))}
+        {timeline.undated.length > 0 && (
+          <section ref={setSectionRef(UNDATED_KEY)} data-timeline-key={UNDATED_KEY}>
+            <h3 className="sticky top-0 z-10 px-4 py-2 bg-black/60 backdrop-blur-sm text-lg font-headline text-white/90">
+              Date unknown
+            </h3>
+            <div className="p-4 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+              {timeline.undated.map(image => (
+                <FrozenImageTile key={image.id} image={image} onClick={() => onImageClick(image)} />
+              ))}
+            </div>
+          </section>
+        )}
+      </ScrollArea>
+      {marks.length > 1 && (
+        <nav
+          aria-label="Timeline"
+          className="flex flex-col justify-between w-24 py-2 touch-none select-none"
+          onPointerDown={(e) => {
+            isScrubbing.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            scrubTo(e);
+          }}
+          onPointerMove={(e) => isScrubbing.current && scrubTo(e)}
+          onPointerUp={() => { isScrubbing.current = false; }}
+          onPointerCancel={() => { isScrubbing.current = false; }}
+        >
+          {marks.map(mark => (
+            <button
+              key={mark.key}
+              type="button"
+              aria-label={mark.dayLabel && mark.dayLabel !== mark.label ? `${mark.dayLabel}, ${mark.label}` : mark.label}
+              aria-current={mark.key === activeKey}
+              className={cn(
+                'text-right text-xs leading-tight transition-colors',
+                mark.key === activeKey ? 'text-white' : 'text-white/40 hover:text-white/70'
+              )}
+              onClick={() => scrollToMark(mark.key)}
+            >
+              {mark.dayLabel && <span className="block font-semibold">{mark.dayLabel.split(' · ')[0]}</span>}
+              {mark.key !== UNDATED_KEY && mark.label}
+            </button>
+          ))}
+        </nav>
+      )}
+    </div>
+  );
+}
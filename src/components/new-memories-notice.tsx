@@ -0,0 +1,50 @@
+// src/components/new-memories-notice.tsx
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import { getMemoryPath } from '@/lib/memory-routes';
+
+// The manifest version and image ids the visitor's last visit knew about.
+const KNOWN_IMAGES_KEY = 'memoryLaneKnownImages';
+
+type KnownImages = { manifestVersion: string; imageIds: string[] };
+
+const readKnownImages = (): KnownImages | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KNOWN_IMAGES_KEY) ?? 'null');
+    return saved && Array.isArray(saved.imageIds) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+// Tells a returning visitor how many photos were added since their last visit, with a link to the first of them.
+// A first visit just records what is there.
+export function NewMemoriesNotice({ imageIds, manifestVersion }: { imageIds: string[]; manifestVersion: string }) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const known = readKnownImages();
+    if (known?.manifestVersion === manifestVersion) return;
+    localStorage.setItem(KNOWN_IMAGES_KEY, JSON.stringify({ manifestVersion, imageIds }));
+    if (!known) return;
+
+    const knownIds = new Set(known.imageIds);
+    const newIds = imageIds.filter(id => !knownIds.has(id));
+    if (newIds.length === 0) return;
+    toast({
+      title: newIds.length === 1 ? 'A new memory was added' : `${newIds.length} new memories were added`,
+      description: 'Since your last visit.',
+      action: (
+        <ToastAction altText="Show the new memories" onClick={() => router.push(getMemoryPath(newIds[0]))}>
+          Show
+        </ToastAction>
+      ),
+    });
+  }, [imageIds, manifestVersion, router]);
+
+  return null;
+}
@@ -0,0 +1,122 @@
+// src/components/offline-panel.tsx
+"use client";
+
+import { useEffect, useRef } from 'react';
+import { CloudDownload, CloudOff, Check, Loader2, Pause, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { useOfflineSync, type OfflineSyncState } from '@/hooks/use-offline-sync';
+import { cn, formatBytes } from '@/lib/utils';
+
+const describeStatus = ({ status, cachedCount, totalCount, queuedCount, isFull }: OfflineSyncState): string => {
+  switch (status) {
+    case 'idle':
+      return 'Save the photos on this device to look through them without a connection.';
+    case 'checking':
+      return 'Checking what is already saved...';
+    case 'syncing':
+      return `Downloading ${queuedCount} more...`;
+    case 'paused':
+      return `Paused with ${cachedCount} of ${totalCount} saved.`;
+    case 'complete':
+      return isFull
+        ? 'Saved as much as this device allows; the rest will load from the network.'
+        : 'Everything is saved. Memory Lane works offline on this device.';
+    case 'unavailable':
+      return 'This browser is not letting the site store photos (private browsing does this), so they will load from the network.';
+  }
+};
+
+// Corner button showing how much of the site is saved for offline use, with a panel to download, pause or clear it.
+export function OfflinePanel() {
+  const sync = useOfflineSync();
+  const { status, cachedCount, totalCount, cachedBytes, downloadedBytes, failures, mode } = sync;
+  const percent = totalCount > 0 ? (cachedCount / totalCount) * 100 : 0;
+  const isBusy = status === 'checking' || status === 'syncing';
+
+  // Let the visitor know once a download they could not see finishes.
+  const previousStatus = useRef(status);
+  useEffect(() => {
+    if (previousStatus.current === 'syncing' && status === 'complete') {
+      if (failures.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: 'Some photos were not saved',
+          description: `${failures.length} could not be downloaded; they will load from the network instead.`,
+        });
+      } else if (downloadedBytes > 0) {
+        toast({ title: 'Saved for offline', description: 'The photos are on this device now, so they work without a connection.' });
+      }
+    }
+    previousStatus.current = status;
+  }, [status, failures.length, downloadedBytes]);
+
+  const clearCopy = async () => {
+    try {
+      await sync.clearOfflineCopy();
+      toast({ title: 'Offline copy removed', description: 'Photos will load from the network until you download them again.' });
+    } catch (error) {
+      console.error('Error clearing offline copy:', error);
+      toast({ variant: 'destructive', title: 'Could not remove the offline copy' });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          aria-label="Offline copy"
+          data-offline-panel
+          variant="ghost"
+          size="sm"
+          className="fixed bottom-4 left-4 z-40 gap-2 rounded-full text-white/50 hover:text-white hover:bg-white/10"
+        >
+          {status === 'unavailable' ? <CloudOff size={20} />
+            : isBusy ? <Loader2 size={20} className="animate-spin" />
+            : status === 'complete' ? <Check size={20} />
+            : <CloudDownload size={20} />}
+          {status === 'syncing' && <span className="text-xs tabular-nums">{Math.floor(percent)}%</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-80" onClick={(e) => e.stopPropagation()}>
+        <h3 className="font-semibold">Offline copy</h3>
+        <p className="mt-1 text-sm text-muted-foreground">{describeStatus(sync)}</p>
+
+        {status !== 'unavailable' && totalCount > 0 && (
+          <>
+            <Progress aria-label="Saved for offline" value={percent} className={cn('mt-3 h-2', !isBusy && 'opacity-70')} />
+            <p className="mt-2 text-xs text-muted-foreground">
+              {cachedCount} of {totalCount} images · {formatBytes(cachedBytes)}
+              {status === 'syncing' && downloadedBytes > 0 && ` · ${formatBytes(downloadedBytes)} downloaded now`}
+            </p>
+          </>
+        )}
+        {failures.length > 0 && (
+          <p className="mt-1 text-xs text-destructive">{failures.length} image(s) failed to download.</p>
+        )}
+        {mode === 'best-effort' && cachedCount > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">Your browser may clear this copy if the device runs low on space.</p>
+        )}
+
+        {status !== 'unavailable' && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {isBusy ? (
+              <Button size="sm" variant="secondary" onClick={sync.pauseOfflineSync}>
+                <Pause /> Pause
+              </Button>
+            ) : (
+              <Button size="sm" onClick={sync.downloadAllForOffline} disabled={status === 'complete' && failures.length === 0}>
+                <CloudDownload /> Download all for offline
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={clearCopy} disabled={cachedCount === 0}>
+              <Trash2 /> Clear offline copy
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,21 +2,88 @@
 'use client';
 
 import { useEffect } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import { SKIP_WAITING_MESSAGE } from '@/sw/precache';
+
+// How often, at most, a tab that is left open checks for a new build when it comes back into view.
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Offers to switch to a new build that has installed and is waiting for the old one to let go.
+const promptToReload = (worker: ServiceWorker) => {
+  toast({
+    title: 'A new version of Memory Lane is ready',
+    description: 'Reload to get the latest photos and fixes.',
+    action: (
+      <ToastAction altText="Reload now" onClick={() => worker.postMessage({ type: SKIP_WAITING_MESSAGE })}>
+        Reload
+      </ToastAction>
+    ),
+  });
+};
 
 export function ServiceWorkerRegistrar() {
   useEffect(() => {
-    if ('serviceWorker' in navigator) {
-      window.addEventListener('load', () => {
-        navigator.serviceWorker
-          .register('/sw.js')
-          .then((registration) => {
-            console.log('ServiceWorker registration successful with scope: ', registration.scope);
-          })
-          .catch((error) => {
-            console.log('ServiceWorker registration failed: ', error);
+    // public/sw.js is bundled after `next build` (see scripts/build-service-worker.ts), so it only exists in production.
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    // The first worker takes over without a reload; only a worker replacing another one means new code,
+    // and it only takes over once the visitor chose to reload.
+    const hadController = !!navigator.serviceWorker.controller;
+    let isReloading = false;
+    const onControllerChange = () => {
+      if (!isReloading && hadController) {
+        isReloading = true;
+        window.location.reload();
+      }
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    let lastUpdateCheck = Date.now();
+    let registration: ServiceWorkerRegistration | undefined;
+    const checkForUpdate = () => {
+      if (document.visibilityState !== 'visible' || !registration) return;
+      if (Date.now() - lastUpdateCheck < UPDATE_CHECK_INTERVAL_MS) return;
+      lastUpdateCheck = Date.now();
+      registration.update().catch(error => console.log('ServiceWorker update check failed: ', error));
+    };
+    document.addEventListener('visibilitychange', checkForUpdate);
+
+    const register = () => {
+      navigator.serviceWorker
+        .register('/sw.js')
+        .then((newRegistration) => {
+          console.log('ServiceWorker registration successful with scope: ', newRegistration.scope);
+          registration = newRegistration;
+
+          // A new build may have installed during an earlier visit and still be waiting.
+          if (newRegistration.waiting && navigator.serviceWorker.controller) {
+            promptToReload(newRegistration.waiting);
+          }
+          newRegistration.addEventListener('updatefound', () => {
+            const installing = newRegistration.installing;
+            installing?.addEventListener('statechange', () => {
+              if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                promptToReload(installing);
+              }
+            });
           });
-      });
+        })
+        .catch((error) => {
+          console.log('ServiceWorker registration failed: ', error);
+        });
+    };
+    if (document.readyState === 'complete') {
+      register();
+    } else {
+      window.addEventListener('load', register, { once: true });
     }
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+      document.removeEventListener('visibilitychange', checkForUpdate);
+      window.removeEventListener('load', register);
+    };
   }, []);
 
   return null; // This component does not render anything.
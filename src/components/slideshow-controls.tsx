@@ -0,0 +1,116 @@
+// src/components/slideshow-controls.tsx
+"use client";
+
+import { Pause, Play, Shuffle, ListOrdered, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useSlideshow } from '@/hooks/use-slideshow';
+import { cn } from '@/lib/utils';
+
+export type SlideshowOrder = 'shuffle' | 'ordered';
+
+export type SlideshowSettings = {
+  intervalMs: number;
+  order: SlideshowOrder;
+};
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  intervalMs: 5000,
+  order: 'shuffle',
+};
+
+const INTERVAL_OPTIONS = [3000, 5000, 8000, 15000];
+
+interface SlideshowControlsProps {
+  settings: SlideshowSettings;
+  onSettingsChange: (settings: SlideshowSettings) => void;
+  isPausedByUser: boolean;
+  onPausedByUserChange: (isPaused: boolean) => void;
+  // Paused by the gallery itself, e.g. while the image is zoomed.
+  isPausedByGallery: boolean;
+  resetKey: unknown;
+  onAdvance: () => void;
+  onStop: () => void;
+}
+
+// Bottom bar shown while the slideshow runs: countdown to the next photo, pause, speed, order and stop.
+// It owns the timer so the countdown re-renders only this bar, not the whole gallery.
+export function SlideshowControls({
+  settings,
+  onSettingsChange,
+  isPausedByUser,
+  onPausedByUserChange,
+  isPausedByGallery,
+  resetKey,
+  onAdvance,
+  onStop,
+}: SlideshowControlsProps) {
+  const { progress, isRunning } = useSlideshow({
+    intervalMs: settings.intervalMs,
+    isPaused: isPausedByUser || isPausedByGallery,
+    resetKey,
+    onAdvance,
+  });
+
+  return (
+    <div
+      data-slideshow-controls
+      className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 rounded-full bg-black/50 px-3 py-2 text-white backdrop-blur-sm"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Button
+        aria-label={isPausedByUser ? 'Resume slideshow' : 'Pause slideshow'}
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white/70 hover:text-white hover:bg-white/10"
+        onClick={() => onPausedByUserChange(!isPausedByUser)}
+      >
+        {isPausedByUser ? <Play size={18} /> : <Pause size={18} />}
+      </Button>
+      <Progress
+        aria-label="Time until the next photo"
+        value={progress}
+        className={cn('h-1.5 w-24 sm:w-40 bg-white/20', !isRunning && 'opacity-50')}
+      />
+      <Select
+        value={String(settings.intervalMs)}
+        onValueChange={(value) => onSettingsChange({ ...settings, intervalMs: Number(value) })}
+      >
+        <SelectTrigger aria-label="Seconds per photo" className="h-8 w-[4.5rem] border-white/20 bg-transparent text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {INTERVAL_OPTIONS.map((intervalMs) => (
+            <SelectItem key={intervalMs} value={String(intervalMs)}>{intervalMs / 1000}s</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        aria-label={settings.order === 'shuffle' ? 'Play in album order' : 'Play in random order'}
+        title={settings.order === 'shuffle' ? 'Random order' : 'Album order'}
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white/70 hover:text-white hover:bg-white/10"
+        onClick={() => onSettingsChange({ ...settings, order: settings.order === 'shuffle' ? 'ordered' : 'shuffle' })}
+      >
+        {settings.order === 'shuffle' ? <Shuffle size={18} /> : <ListOrdered size={18} />}
+      </Button>
+      <Button
+        aria-label="Stop slideshow"
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-white/70 hover:text-white hover:bg-white/10"
+        onClick={onStop}
+      >
+        <X size={18} />
+      </Button>
+    </div>
+  );
+}
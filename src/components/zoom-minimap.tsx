@@ -0,0 +1,83 @@
+// src/components/zoom-minimap.tsx
+"use client";
+
+import { useEffect, useRef, type PointerEvent } from 'react';
+import Image from 'next/image';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+import type { Point, Region } from '@/lib/zoom';
+import { useImageFormat } from '@/hooks/use-image-format';
+import { useOfflineImage } from '@/hooks/use-offline-image';
+import { BACKGROUND_VARIANT, getPlaceholderStyle } from '@/lib/image-variants';
+
+// Longest side of the minimap, in CSS pixels.
+const MINIMAP_SIZE = 144;
+
+interface ZoomMinimapProps {
+  image: ImagePlaceholder;
+  subscribeToRegion: (listener: (region: Region) => void) => () => void;
+  // Moves the main view so the given spot of the photo, as fractions of its size, is in the middle.
+  onNavigate: (point: Point, animate: boolean) => void;
+}
+
+// Small copy of the whole photo shown while it is zoomed, with a rectangle over the part in view.
+// Clicking jumps the main view there and dragging moves it along.
+// The rectangle follows every frame of a pan through subscribeToRegion, without re-rendering.
+export function ZoomMinimap({ image, subscribeToRegion, onNavigate }: ZoomMinimapProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const regionRef = useRef<HTMLDivElement>(null);
+  const imageFormat = useImageFormat();
+  const imageSource = useOfflineImage(imageFormat ? image.variants[BACKGROUND_VARIANT][imageFormat] : null);
+
+  const aspectRatio = image.width / image.height;
+  const width = aspectRatio >= 1 ? MINIMAP_SIZE : MINIMAP_SIZE * aspectRatio;
+  const height = aspectRatio >= 1 ? MINIMAP_SIZE / aspectRatio : MINIMAP_SIZE;
+
+  useEffect(() => {
+    return subscribeToRegion((region) => {
+      const el = regionRef.current;
+      if (!el) return;
+      el.style.left = `${region.x * 100}%`;
+      el.style.top = `${region.y * 100}%`;
+      el.style.width = `${region.width * 100}%`;
+      el.style.height = `${region.height * 100}%`;
+    });
+  }, [subscribeToRegion]);
+
+  // Where on the photo a pointer is, as fractions of its size; null before the minimap is mounted.
+  const toImagePoint = (e: PointerEvent): Point | null => {
+    if (!mapRef.current) return null;
+    const rect = mapRef.current.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  return (
+    <div
+      ref={mapRef}
+      role="presentation"
+      className="absolute bottom-6 right-6 z-40 overflow-hidden rounded-md border border-white/40 bg-black/50 shadow-lg cursor-crosshair touch-none"
+      style={{ ...getPlaceholderStyle(image), width, height }}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toImagePoint(e);
+        if (point) onNavigate(point, true);
+      }}
+      onPointerMove={(e) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const point = toImagePoint(e);
+        if (point) onNavigate(point, false);
+      }}
+    >
+      {/* The smallest copy is plenty at this size, and is already cached for the blurred background. */}
+      {imageSource && <Image src={imageSource} alt="" fill draggable={false} className="object-cover" sizes={`${MINIMAP_SIZE}px`} />}
+      <div
+        ref={regionRef}
+        className="pointer-events-none absolute rounded-sm border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+      />
+    </div>
+  );
+}
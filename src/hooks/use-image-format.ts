@@ -0,0 +1,42 @@
+"use client"
+
+import * as React from "react"
+
+import type { ImageFormat } from "@/lib/image-variants"
+
+// A 1x1 AVIF image; browsers that cannot decode AVIF fire onerror instead of onload.
+const AVIF_PROBE =
+  "data:image/avif;base64,AAAAHGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZgAAANZtZXRhAAAAAAAAACFoZGxyAAAAAAAAAABwaWN0AAAAAAAAAAAAAAAAAAAAAA5waXRtAAAAAAABAAAAImlsb2MAAAAAREAAAQABAAAAAAD6AAEAAAAAAAAAFwAAACNpaW5mAAAAAAABAAAAFWluZmUCAAAAAAEAAGF2MDEAAAAAVmlwcnAAAAA4aXBjbwAAAAxhdjFDgSACAAAAABRpc3BlAAAAAAAAAAEAAAABAAAAEHBpeGkAAAAAAwgICAAAABZpcG1hAAAAAAAAAAEAAQOBAgMAAAAfbWRhdBIACgc4AAYQENBpMgoYAAAAQACwEpqY"
+
+let formatPromise: Promise<ImageFormat> | null = null
+
+// Detects the best image format once per page load and shares the answer with every caller.
+export function detectImageFormat(): Promise<ImageFormat> {
+  if (!formatPromise) {
+    formatPromise = new Promise((resolve) => {
+      const probe = new Image()
+      probe.onload = () => resolve(probe.width > 0 ? "avif" : "webp")
+      probe.onerror = () => resolve("webp")
+      probe.src = AVIF_PROBE
+    })
+  }
+  return formatPromise
+}
+
+// Returns the image format this browser should be served, or null until it is known.
+// Waiting avoids downloading a WebP copy only to replace it with the AVIF one a moment later.
+export function useImageFormat() {
+  const [format, setFormat] = React.useState<ImageFormat | null>(null)
+
+  React.useEffect(() => {
+    let isMounted = true
+    detectImageFormat().then((detected) => {
+      if (isMounted) setFormat(detected)
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  return format
+}
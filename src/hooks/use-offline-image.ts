@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from 'react';
+import { pinImage } from '@/lib/cache-budget';
+
+// The service worker answers every request for a memory from the offline cache when it holds a copy,
+// and from the network otherwise, so components simply use the URL.
+// The image is pinned while shown, so making room in the cache from any tab never evicts it, and the copies
+// evicted first are the ones nobody has looked at for longest.
+export const useOfflineImage = (imageUrl: string | null) => {
+  useEffect(() => {
+    if (!imageUrl) return;
+    return pinImage(imageUrl);
+  }, [imageUrl]);
+
+  return imageUrl;
+};
@@ -0,0 +1,395 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  clearImages,
+  deleteImages,
+  deleteSyncProgress,
+  getAllImageRecords,
+  getSyncProgress,
+  storeImage,
+  storeSyncProgress,
+  updateImageSources,
+  type ImageSource,
+} from '@/lib/indexed-db';
+import type { ImagePlaceholder } from '@/lib/placeholder-images';
+import { getDisplayedVariantUrls, getVariantHashes } from '@/lib/image-variants';
+import { hashBlob } from '@/lib/content-hash';
+import { checkStorage, evictToFit, isQuotaExceededError, type StorageMode } from '@/lib/cache-budget';
+import { createDownloadQueue, type DownloadQueue, type DownloadTask } from '@/lib/download-queue';
+import { detectImageFormat } from '@/hooks/use-image-format';
+
+// Remembers that the visitor paused or cleared the offline copy, so the next visit does not quietly download it again.
+const PAUSED_KEY = 'memoryLaneOfflinePaused';
+// Key of the saved progress of an unfinished sync in IndexedDB.
+const SYNC_PROGRESS_ID = 'images';
+
+// A few downloads at once keep the connection busy without crowding out the image on screen.
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+// How often, at most, the progress of a running sync is saved.
+const PROGRESS_SAVE_INTERVAL_MS = 1000;
+
+export type OfflineSyncStatus =
+  // Nothing is stored and nothing is downloading.
+  | 'idle'
+  // Comparing what is stored with what the site needs.
+  | 'checking'
+  | 'syncing'
+  | 'paused'
+  // Everything that fits in the cache is stored.
+  | 'complete'
+  // There is no usable storage, e.g. in some private browsing modes.
+  | 'unavailable';
+
+export type OfflineSyncFailure = { url: string; message: string };
+
+export type OfflineSyncState = {
+  status: OfflineSyncStatus;
+  mode: StorageMode | null;
+  // Image copies this device needs for offline viewing, and how many of them are stored.
+  totalCount: number;
+  cachedCount: number;
+  // Copies still waiting to be downloaded in the current run.
+  queuedCount: number;
+  // Bytes downloaded in the current run, and stored in total.
+  downloadedBytes: number;
+  cachedBytes: number;
+  failures: OfflineSyncFailure[];
+  // The cache reached its share of the storage quota before everything was stored.
+  isFull: boolean;
+};
+
+type SyncSource = { images: ImagePlaceholder[]; manifestVersion: string };
+
+// Progress of a sync is what the offline panel shows; the console only gets it while developing.
+const logProgress = (message: string) => {
+  if (process.env.NODE_ENV === 'development') console.log(message);
+};
+
+const listeners: Array<(state: OfflineSyncState) => void> = [];
+
+let memoryState: OfflineSyncState = {
+  status: 'idle',
+  mode: null,
+  totalCount: 0,
+  cachedCount: 0,
+  queuedCount: 0,
+  downloadedBytes: 0,
+  cachedBytes: 0,
+  failures: [],
+  isFull: false,
+};
+
+function setState(update: Partial<OfflineSyncState>) {
+  memoryState = { ...memoryState, ...update };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+let source: SyncSource | null = null;
+// Bumped to cancel whatever run is in progress; a run stops as soon as it sees the id change.
+let runId = 0;
+let queue: DownloadQueue | null = null;
+
+// A response that retrying will not fix, e.g. a missing file; server errors and dropped connections are retried.
+type HttpError = Error & { status: number };
+
+const isHttpClientError = (error: unknown): boolean => {
+  const status = (error as Partial<HttpError> | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+};
+
+// Drops the queue of the current run, keeping what it had left so a later run can resume it.
+async function stopQueue(saveProgress: boolean) {
+  if (!queue || !source) return;
+  const tasks = queue.tasks();
+  queue.pause();
+  queue.clear();
+  queue = null;
+  if (saveProgress && tasks.length > 0) {
+    await storeSyncProgress({ id: SYNC_PROGRESS_ID, manifestVersion: source.manifestVersion, tasks, updatedAt: Date.now() })
+      .catch(error => console.error('Could not save sync progress:', error));
+  }
+}
+
+const isPausedByVisitor = () => localStorage.getItem(PAUSED_KEY) === 'true';
+
+// Brings the offline cache in line with the images the site needs: removes stale copies, makes room if the cache
+// is over budget, checks copies from an earlier manifest against their content hashes, then (unless only measuring)
+// downloads what is missing or was replaced until it is done, paused or full.
+async function runSync(shouldDownload: boolean) {
+  if (!source) return;
+  const { images, manifestVersion } = source;
+  await stopQueue(true);
+  const run = ++runId;
+  const isCancelled = () => run !== runId;
+
+  setState({ status: 'checking', failures: [], downloadedBytes: 0, queuedCount: 0, isFull: false });
+  try {
+    const storage = await checkStorage();
+    if (isCancelled()) return;
+    if (storage.mode === 'network-only') {
+      console.warn('Offline storage is unavailable; images will load from the network only.');
+      setState({ status: 'unavailable', mode: storage.mode });
+      return;
+    }
+
+    // The copies this device shows at its current size are downloaded; copies of other sizes, e.g. cached before the
+    // phone was rotated or by a tab of another size, are kept as long as the manifest still has them.
+    const format = await detectImageFormat();
+    const requiredUrls = new Set(images.flatMap(image => getDisplayedVariantUrls(image, format)));
+    const expectedHashes = getVariantHashes(images);
+    const cachedItems = await getAllImageRecords();
+
+    // 1. Remove copies of images no longer in the manifest first, so their space can be reused. Offline, the page
+    // may be older than what was cached, so nothing is removed until it can be checked against the live site.
+    const urlsToRemove = cachedItems.map(item => item.url).filter(url => !expectedHashes.has(url));
+    if (urlsToRemove.length > 0 && navigator.onLine) {
+      await deleteImages(urlsToRemove);
+    }
+
+    // 2. Make room if the cache is over budget, e.g. because the browser lowered the quota since the last visit
+    const sumBytes = (items: { byteSize: number }[]) => items.reduce((total, item) => total + item.byteSize, 0);
+    let keptItems = cachedItems.filter(item => expectedHashes.has(item.url));
+    if (sumBytes(keptItems) > storage.budget) {
+      await evictToFit(storage.budget);
+      keptItems = (await getAllImageRecords()).filter(item => expectedHashes.has(item.url));
+    }
+    const keptUrls = new Set(keptItems.map(item => item.url));
+
+    // 3. When the manifest has changed, check the copies cached under an earlier one against its hashes.
+    // Unchanged copies are marked current; photos replaced under the same URL are downloaded again below,
+    // and the old copy keeps showing until the new one is stored.
+    const confirmedSources = new Map<string, ImageSource>();
+    const replacedBytes = new Map<string, number>();
+    for (const item of keptItems) {
+      if (item.manifestVersion === manifestVersion) continue;
+      // Copies cached before hashes were recorded are hashed once here. Where the browser cannot hash,
+      // there is no telling whether the copy is current, so it is downloaded again.
+      const contentHash = item.contentHash ?? await hashBlob(item.blob);
+      if (contentHash && contentHash === expectedHashes.get(item.url)) {
+        confirmedSources.set(item.url, { contentHash, manifestVersion });
+      } else {
+        replacedBytes.set(item.url, item.byteSize);
+      }
+    }
+    await updateImageSources(confirmedSources);
+    if (replacedBytes.size > 0) {
+      logProgress(`${replacedBytes.size} cached image(s) changed since they were stored; refreshing them...`);
+    }
+    const urlsToCache = [
+      ...replacedBytes.keys(),
+      ...[...requiredUrls].filter(url => !keptUrls.has(url)),
+    ];
+
+    let cachedBytes = sumBytes(keptItems);
+    setState({
+      mode: storage.mode,
+      totalCount: requiredUrls.size,
+      cachedCount: keptItems.filter(item => requiredUrls.has(item.url)).length,
+      cachedBytes,
+    });
+    if (isCancelled()) return;
+
+    if (urlsToCache.length === 0) {
+      await deleteSyncProgress(SYNC_PROGRESS_ID);
+      setState({ status: 'complete' });
+      return;
+    }
+    if (!shouldDownload) {
+      setState({ status: keptItems.length > 0 ? 'paused' : 'idle' });
+      return;
+    }
+
+    // 4. Pick up an unfinished sync where it stopped: its tasks keep their order and failed attempts,
+    // and anything missing that it did not know about goes at the back
+    const saved = await getSyncProgress(SYNC_PROGRESS_ID);
+    const missingUrls = new Set(urlsToCache);
+    const resumedTasks = saved?.manifestVersion === manifestVersion ? saved.tasks.filter(task => missingUrls.has(task.url)) : [];
+    const resumedUrls = new Set(resumedTasks.map(task => task.url));
+    const tasks: DownloadTask[] = [
+      ...resumedTasks,
+      ...urlsToCache.filter(url => !resumedUrls.has(url)).map(url => ({ url, attempts: 0, retryAt: 0 })),
+    ];
+    if (isCancelled()) return;
+
+    // 5. Download what is missing, a few at a time, while it fits.
+    // Every download is checked against its hash, so a copy that does not match the manifest is never stored.
+    let isFull = false;
+    // Stores under way; once the cache is full they are waited for, so nothing is stored after the run completes.
+    const pendingStores = new Set<Promise<void>>();
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+    const saveProgress = () => {
+      if (saveTimer !== undefined) return;
+      saveTimer = setTimeout(() => {
+        saveTimer = undefined;
+        if (isCancelled() || !queue) return;
+        storeSyncProgress({ id: SYNC_PROGRESS_ID, manifestVersion, tasks: queue.tasks(), updatedAt: Date.now() })
+          .catch(error => console.error('Could not save sync progress:', error));
+      }, PROGRESS_SAVE_INTERVAL_MS);
+    };
+    const finish = async () => {
+      clearTimeout(saveTimer);
+      queue = null;
+      await deleteSyncProgress(SYNC_PROGRESS_ID).catch(() => undefined);
+      logProgress('Background caching complete.');
+      setState({ status: 'complete', queuedCount: 0, isFull });
+    };
+
+    const runQueue = createDownloadQueue({
+      concurrency: CONCURRENCY,
+      maxAttempts: MAX_ATTEMPTS,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      download: async (url) => {
+        // Revalidate with the server rather than trusting the HTTP cache, which may still hold a replaced photo.
+        const response = await fetch(url, { cache: 'no-cache' });
+        if (!response.ok) {
+          throw Object.assign(new Error(`Failed to fetch ${url} (${response.status})`), { status: response.status });
+        }
+        const blob = await response.blob();
+        const contentHash = await hashBlob(blob);
+        const expectedHash = expectedHashes.get(url);
+        // Most likely a deploy in progress, so it is retried.
+        if (contentHash && expectedHash && contentHash !== expectedHash) {
+          throw new Error(`${url} does not match the manifest (hash ${contentHash}, expected ${expectedHash})`);
+        }
+        // Paused or cleared while this one was downloading.
+        if (isCancelled()) return;
+        const isReplacement = replacedBytes.has(url);
+        const addedBytes = blob.size - (replacedBytes.get(url) ?? 0);
+        if (cachedBytes + addedBytes > storage.budget) {
+          isFull = true;
+          throw new Error('The offline cache is full');
+        }
+        // Reserve the space before storing, so downloads finishing side by side cannot all fit into the same room.
+        cachedBytes += addedBytes;
+        const store = storeImage(url, blob, { etag: response.headers.get('ETag'), contentHash, manifestVersion });
+        pendingStores.add(store);
+        try {
+          await store;
+        } catch (error) {
+          cachedBytes -= addedBytes;
+          throw error;
+        } finally {
+          pendingStores.delete(store);
+        }
+        replacedBytes.delete(url);
+        setState({
+          cachedCount: memoryState.cachedCount + (isReplacement ? 0 : 1),
+          cachedBytes,
+          downloadedBytes: memoryState.downloadedBytes + blob.size,
+        });
+      },
+      isRetryable: (error) => !isFull && !isQuotaExceededError(error) && !isHttpClientError(error),
+      onSuccess: () => {
+        if (isCancelled()) return;
+        setState({ queuedCount: runQueue.size });
+        saveProgress();
+      },
+      onFailure: (url, error, willRetry) => {
+        if (isCancelled()) return;
+        // Once the cache is full there is no point downloading the rest; they load from the network instead.
+        if (isFull || isQuotaExceededError(error)) {
+          if (!isFull) console.warn('Ran out of storage space; the remaining images will load from the network.');
+          else logProgress('Offline cache is full; the remaining images will load from the network.');
+          isFull = true;
+          runQueue.pause();
+          runQueue.clear();
+          // Downloads still in flight see the run as cancelled and store nothing; stores already under way finish first.
+          const fullRun = ++runId;
+          Promise.allSettled(pendingStores).then(() => {
+            if (runId === fullRun) finish();
+          });
+          return;
+        }
+        if (willRetry) {
+          console.warn(`Failed to cache image, will retry: ${url}`, error);
+        } else {
+          console.error(`Failed to cache image: ${url}`, error);
+          setState({ failures: [...memoryState.failures, { url, message: String(error) }] });
+        }
+        setState({ queuedCount: runQueue.size });
+        saveProgress();
+      },
+      onIdle: () => {
+        if (!isCancelled()) finish();
+      },
+    });
+
+    queue = runQueue;
+    logProgress(`Caching ${tasks.length} new image(s) in the background${resumedTasks.length > 0 ? `, resuming ${resumedTasks.length} from last time` : ''}...`);
+    setState({ status: 'syncing', queuedCount: tasks.length });
+    runQueue.add(tasks);
+    runQueue.start();
+  } catch (error) {
+    console.error('Error during cache sync:', error);
+    if (!isCancelled()) setState({ status: memoryState.cachedCount > 0 ? 'paused' : 'idle', queuedCount: 0 });
+  }
+}
+
+// Tells the sync which images the page shows and checks the cache against them.
+// It downloads straight away unless the visitor paused offline downloads on an earlier visit.
+function startOfflineSync(images: ImagePlaceholder[], manifestVersion: string) {
+  source = { images, manifestVersion };
+  runSync(!isPausedByVisitor());
+}
+
+// "Download all for offline": resumes downloading and keeps doing so on later visits.
+function downloadAllForOffline() {
+  localStorage.removeItem(PAUSED_KEY);
+  runSync(true);
+}
+
+// Stops after the downloads in flight; nothing more is downloaded until the visitor asks again.
+// What was left is saved, so downloading picks up from there.
+function pauseOfflineSync() {
+  localStorage.setItem(PAUSED_KEY, 'true');
+  runId++;
+  stopQueue(true);
+  setState({ status: memoryState.cachedCount > 0 ? 'paused' : 'idle', queuedCount: 0 });
+}
+
+// Moves images the visitor is about to see, e.g. the next photo or grid tiles scrolled into view, to the front of the queue.
+function prioritizeOfflineImages(urls: string[]) {
+  queue?.prioritize(urls);
+}
+
+// Deletes every stored copy and stops downloading, e.g. to free space on the device.
+async function clearOfflineCopy() {
+  localStorage.setItem(PAUSED_KEY, 'true');
+  runId++;
+  await stopQueue(false);
+  await deleteSyncProgress(SYNC_PROGRESS_ID);
+  await clearImages();
+  setState({ status: 'idle', cachedCount: 0, cachedBytes: 0, queuedCount: 0, downloadedBytes: 0, failures: [], isFull: false });
+}
+
+function useOfflineSync() {
+  const [state, setLocalState] = useState<OfflineSyncState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setLocalState);
+    // Catch up on anything that changed between the first render and subscribing.
+    setLocalState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  return {
+    ...state,
+    downloadAllForOffline,
+    pauseOfflineSync,
+    clearOfflineCopy,
+  };
+}
+
+export { useOfflineSync, startOfflineSync, downloadAllForOffline, pauseOfflineSync, prioritizeOfflineImages, clearOfflineCopy };
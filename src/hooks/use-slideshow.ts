@@ -0,0 +1,57 @@
+"use client"
+
+import * as React from "react"
+
+// How often the countdown is updated; fine enough for a smooth progress bar without re-rendering every frame.
+const TICK_MS = 100
+
+type UseSlideshowOptions = {
+  intervalMs: number
+  // Paused by the user or by something else on screen, e.g. a zoomed image.
+  isPaused: boolean
+  // Changing this restarts the countdown, e.g. the id of the image on screen after a manual swipe.
+  resetKey: unknown
+  onAdvance: () => void
+}
+
+// Counts down to the next slide, calling onAdvance each time the interval elapses.
+// The countdown also stops while the tab is hidden, so nobody comes back to find the slideshow far ahead.
+export function useSlideshow({ intervalMs, isPaused, resetKey, onAdvance }: UseSlideshowOptions) {
+  const [elapsed, setElapsed] = React.useState(0)
+  const [isHidden, setIsHidden] = React.useState(false)
+  const onAdvanceRef = React.useRef(onAdvance)
+
+  React.useEffect(() => {
+    onAdvanceRef.current = onAdvance
+  }, [onAdvance])
+
+  React.useEffect(() => {
+    const onVisibilityChange = () => setIsHidden(document.hidden)
+    onVisibilityChange()
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange)
+  }, [])
+
+  React.useEffect(() => {
+    setElapsed(0)
+  }, [resetKey, intervalMs])
+
+  const isRunning = !isPaused && !isHidden
+
+  React.useEffect(() => {
+    if (!isRunning) return
+    const timer = window.setInterval(() => setElapsed((current) => current + TICK_MS), TICK_MS)
+    return () => window.clearInterval(timer)
+  }, [isRunning])
+
+  React.useEffect(() => {
+    if (elapsed < intervalMs) return
+    setElapsed(0)
+    onAdvanceRef.current()
+  }, [elapsed, intervalMs])
+
+  return {
+    progress: Math.min(100, (elapsed / intervalMs) * 100),
+    isRunning,
+  }
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import anime from 'animejs';
+import {
+  DEFAULT_ZOOM,
+  RESTING_VIEW,
+  centerViewOn,
+  clampView,
+  getVisibleRegion,
+  rubberBandScale,
+  rubberBandView,
+  zoomAround,
+  type Point,
+  type Region,
+  type ZoomView,
+} from '@/lib/zoom';
+
+// Movement, in CSS pixels, that turns a tap into a drag.
+const TAP_THRESHOLD = 5;
+// Longest gap between the taps of a double tap.
+const DOUBLE_TAP_MS = 250;
+// A flick carries the image on for as far as it would travel in this long at the speed it was released.
+const MOMENTUM_MS = 325;
+// A pointer that stopped for longer than this before lifting was not flicked.
+const FLICK_TIMEOUT_MS = 50;
+const SETTLE_MS = 300;
+// How quickly ctrl+wheel (and trackpad pinch, which browsers report the same way) zooms.
+const WHEEL_ZOOM_SPEED = 0.01;
+// Wheel zooming counts as finished once the wheel has been still this long.
+const WHEEL_IDLE_MS = 150;
+
+type UseZoomPanOptions = {
+  // Deepest zoom allowed for the current image.
+  maxZoom: number;
+  isLocked: boolean;
+  // Zooming in locks the view and zooming back out to 1x unlocks it.
+  onLockChange: (isLocked: boolean) => void;
+  // A single tap that was not part of a drag or a double tap.
+  onTap: () => void;
+};
+
+// Zoom and pan for the locked image in the swipe view: pinch, ctrl/trackpad wheel, double-tap on a point,
+// drag with momentum, and rubber-banding past the edges and zoom limits.
+// The transform is written straight to the element on every frame, so gestures never re-render the gallery.
+// `zoom` only changes once a gesture settles, e.g. to load a sharper copy of the photo.
+export function useZoomPan({ maxZoom, isLocked, onLockChange, onTap }: UseZoomPanOptions) {
+  const [target, setTarget] = useState<HTMLElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const view = useRef<ZoomView>({ ...RESTING_VIEW });
+  const options = useRef({ maxZoom, isLocked, onLockChange, onTap });
+  const regionListeners = useRef(new Set<(region: Region) => void>());
+
+  useEffect(() => {
+    options.current = { maxZoom, isLocked, onLockChange, onTap };
+  }, [maxZoom, isLocked, onLockChange, onTap]);
+
+  // Size of the element before any transform, and of the frame that clips it.
+  const measure = useCallback(() => {
+    const frame = target?.parentElement ?? target;
+    return {
+      base: { width: target?.offsetWidth ?? 0, height: target?.offsetHeight ?? 0 },
+      frame: { width: frame?.clientWidth ?? 0, height: frame?.clientHeight ?? 0 },
+    };
+  }, [target]);
+
+  const notifyRegion = useCallback(() => {
+    if (regionListeners.current.size === 0) return;
+    const { base, frame } = measure();
+    const region = getVisibleRegion(view.current, base, frame);
+    regionListeners.current.forEach(listener => listener(region));
+  }, [measure]);
+
+  const render = useCallback(() => {
+    if (!target) return;
+    const { scale, x, y } = view.current;
+    target.style.transform = `translate3d(${x}px, ${y}px, 0) scale(${scale})`;
+    notifyRegion();
+  }, [target, notifyRegion]);
+
+  // Keeps the gallery's lock in step with the zoom: anything above 1x is locked.
+  const syncLock = useCallback((scale: number) => {
+    const shouldLock = scale > 1;
+    if (shouldLock !== options.current.isLocked) options.current.onLockChange(shouldLock);
+  }, []);
+
+  const settle = useCallback((next: ZoomView, duration = SETTLE_MS) => {
+    anime.remove(view.current);
+    anime({
+      targets: view.current,
+      ...next,
+      duration,
+      easing: 'easeOutCubic',
+      update: render,
+    });
+    setZoom(next.scale);
+    syncLock(next.scale);
+  }, [render, syncLock]);
+
+  // Jumps (or glides, when animated) to put a spot of the photo, given as fractions of its size, in the middle of the frame.
+  const centerOn = useCallback((point: Point, animate: boolean) => {
+    const { base, frame } = measure();
+    const next = clampView(centerViewOn(view.current, point, base), base, frame);
+    if (animate) {
+      settle(next);
+    } else {
+      anime.remove(view.current);
+      Object.assign(view.current, next);
+      render();
+    }
+  }, [measure, settle, render]);
+
+  // Calls listener with the part of the photo in view on every frame it changes, e.g. to draw a minimap.
+  const subscribeToRegion = useCallback((listener: (region: Region) => void) => {
+    regionListeners.current.add(listener);
+    const { base, frame } = measure();
+    listener(getVisibleRegion(view.current, base, frame));
+    return () => {
+      regionListeners.current.delete(listener);
+    };
+  }, [measure]);
+
+  // A new image starts unzoomed.
+  useEffect(() => {
+    anime.remove(view.current);
+    Object.assign(view.current, RESTING_VIEW);
+    setZoom(1);
+  }, [target]);
+
+  // Locking from outside (a tap, or the close button and Escape to unlock) zooms to the default or back to rest.
+  useEffect(() => {
+    const { scale } = view.current;
+    if (isLocked && scale <= 1) {
+      settle({ scale: Math.min(DEFAULT_ZOOM, options.current.maxZoom), x: 0, y: 0 });
+    } else if (!isLocked && scale !== 1) {
+      settle(RESTING_VIEW);
+    }
+  }, [isLocked, settle]);
+
+  useEffect(() => {
+    if (!target) return;
+    const frame = target.parentElement ?? target;
+
+    const pointers = new Map<number, Point>();
+    let start = { view: { ...RESTING_VIEW }, point: { x: 0, y: 0 }, distance: 0 };
+    let lastPoint = { x: 0, y: 0 };
+    let lastMoveTime = 0;
+    let velocity = { x: 0, y: 0 };
+    let didMove = false;
+    let tapTimer: number | undefined;
+    let wheelTimer: number | undefined;
+
+    // Position relative to the centre of the frame, the origin the view is measured from.
+    const toFramePoint = (point: Point): Point => {
+      const rect = frame.getBoundingClientRect();
+      return { x: point.x - rect.left - rect.width / 2, y: point.y - rect.top - rect.height / 2 };
+    };
+
+    const getCentroid = (): Point => {
+      const points = [...pointers.values()];
+      return {
+        x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+        y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+      };
+    };
+
+    const getDistance = () => {
+      const [a, b] = [...pointers.values()];
+      return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+    };
+
+    // Starts measuring the gesture afresh, e.g. when a second finger lands or one of two lifts.
+    const restartGesture = () => {
+      start = { view: { ...view.current }, point: getCentroid(), distance: getDistance() };
+      lastPoint = start.point;
+    };
+
+    // Zooms in on a double-tapped point, a step at a time, and back out once fully zoomed.
+    const zoomToPoint = (point: Point) => {
+      const { maxZoom } = options.current;
+      const { scale } = view.current;
+      const nextScale = scale >= maxZoom * 0.99 ? 1 : Math.min(scale <= 1 ? DEFAULT_ZOOM : scale * 2, maxZoom);
+      const { base, frame: frameSize } = measure();
+      settle(clampView(zoomAround(view.current, point, nextScale), base, frameSize));
+    };
+
+    const handleTap = (point: Point) => {
+      if (tapTimer !== undefined) {
+        window.clearTimeout(tapTimer);
+        tapTimer = undefined;
+        zoomToPoint(point);
+        return;
+      }
+      tapTimer = window.setTimeout(() => {
+        tapTimer = undefined;
+        options.current.onTap();
+      }, DOUBLE_TAP_MS);
+    };
+
+    // Once every finger has lifted: spring back inside the limits, or glide on if the image was flicked.
+    const release = (wasFlicked: boolean) => {
+      const { maxZoom } = options.current;
+      const { base, frame: frameSize } = measure();
+      const current = { ...view.current };
+
+      if (current.scale <= 1) {
+        settle(RESTING_VIEW);
+      } else if (current.scale > maxZoom) {
+        settle(clampView(zoomAround(current, toFramePoint(lastPoint), maxZoom), base, frameSize));
+      } else {
+        const clamped = clampView(current, base, frameSize);
+        const isInside = clamped.x === current.x && clamped.y === current.y;
+        if (!isInside || !wasFlicked) {
+          settle(clamped);
+        } else {
+          const glide = { ...current, x: current.x + velocity.x * MOMENTUM_MS, y: current.y + velocity.y * MOMENTUM_MS };
+          // easeOutCubic starts at three times its average speed, so this duration matches the release speed.
+          settle(clampView(glide, base, frameSize), MOMENTUM_MS * 3);
+        }
+      }
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      anime.remove(view.current);
+
+      if (pointers.size === 0) {
+        didMove = false;
+        velocity = { x: 0, y: 0 };
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      // A second finger makes this a pinch, never a tap.
+      if (pointers.size > 1) didMove = true;
+      restartGesture();
+      lastMoveTime = e.timeStamp;
+      if (view.current.scale > 1) target.style.cursor = 'grabbing';
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      const point = getCentroid();
+      if (!didMove && Math.hypot(point.x - start.point.x, point.y - start.point.y) > TAP_THRESHOLD) {
+        didMove = true;
+      }
+      if (!didMove) return;
+
+      const isPinch = pointers.size > 1 && start.distance > 0;
+      // Without a pinch, an unzoomed image stays put and the gallery's own swipe handling takes over.
+      if (!isPinch && start.view.scale <= 1) return;
+
+      let next = start.view;
+      if (isPinch) {
+        const scale = rubberBandScale((start.view.scale * getDistance()) / start.distance, options.current.maxZoom);
+        next = zoomAround(start.view, toFramePoint(start.point), scale);
+        if (scale > 1) syncLock(scale);
+      }
+      next = { ...next, x: next.x + point.x - start.point.x, y: next.y + point.y - start.point.y };
+
+      const elapsed = e.timeStamp - lastMoveTime;
+      if (elapsed > 0) {
+        // Smooth the speed a little, so one jittery event does not decide the flick.
+        velocity = {
+          x: 0.8 * ((point.x - lastPoint.x) / elapsed) + 0.2 * velocity.x,
+          y: 0.8 * ((point.y - lastPoint.y) / elapsed) + 0.2 * velocity.y,
+        };
+      }
+      lastPoint = point;
+      lastMoveTime = e.timeStamp;
+
+      const { base, frame: frameSize } = measure();
+      Object.assign(view.current, rubberBandView(next, base, frameSize));
+      render();
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      e.stopPropagation();
+      pointers.delete(e.pointerId);
+
+      // Lifting one finger of a pinch carries on as a drag with the other.
+      if (pointers.size > 0) {
+        restartGesture();
+        return;
+      }
+      target.style.cursor = '';
+
+      if (!didMove && e.type === 'pointerup') {
+        handleTap(toFramePoint({ x: e.clientX, y: e.clientY }));
+      } else {
+        release(e.type === 'pointerup' && e.timeStamp - lastMoveTime < FLICK_TIMEOUT_MS);
+      }
+    };
+
+    // Ctrl+wheel zooms on the cursor; a plain wheel or two-finger scroll pans an image that is already zoomed.
+    const onWheel = (e: WheelEvent) => {
+      const { maxZoom, isLocked } = options.current;
+      if (!e.ctrlKey && !isLocked) return;
+      e.preventDefault();
+      anime.remove(view.current);
+
+      let next: ZoomView;
+      if (e.ctrlKey) {
+        const scale = Math.min(maxZoom, Math.max(1, view.current.scale * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED)));
+        next = zoomAround(view.current, toFramePoint({ x: e.clientX, y: e.clientY }), scale);
+      } else {
+        next = { ...view.current, x: view.current.x - e.deltaX, y: view.current.y - e.deltaY };
+      }
+
+      const { base, frame: frameSize } = measure();
+      Object.assign(view.current, clampView(next, base, frameSize));
+      render();
+      syncLock(view.current.scale);
+
+      window.clearTimeout(wheelTimer);
+      wheelTimer = window.setTimeout(() => setZoom(view.current.scale), WHEEL_IDLE_MS);
+    };
+
+    // Down is only caught on the image, but moves and lifts anywhere, so a drag can leave the image's bounds.
+    target.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    frame.addEventListener('wheel', onWheel, { passive: false });
+
+    return () => {
+      window.clearTimeout(tapTimer);
+      window.clearTimeout(wheelTimer);
+      target.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+      frame.removeEventListener('wheel', onWheel);
+    };
+  }, [target, measure, render, settle, syncLock]);
+
+  return { ref: setTarget, zoom, centerOn, subscribeToRegion };
+}
@@ -0,0 +1,111 @@
+// src/lib/albums.ts
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import data from './albums.json';
+import { AllImages, type ImagePlaceholder } from './placeholder-images';
+import { formatManifestProblems, getManifestProblems, type ManifestSource } from './image-manifest';
+
+const ALBUMS_SOURCE: ManifestSource = {
+  label: 'album list',
+  file: 'src/lib/albums.json',
+  listKey: 'albums',
+  keyField: 'slug',
+};
+
+// Calendar date in YYYY-MM-DD form.
+const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'dates must be written as YYYY-MM-DD')
+  .refine(value => !Number.isNaN(Date.parse(value)), 'not a real calendar date');
+
+// Schema for one album: a titled, dated collection of memories, e.g. one camp.
+export const AlbumSchema = z
+  .object({
+    slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'slug must be lowercase words joined by hyphens'),
+    title: z.string().trim().min(1, 'title must not be empty'),
+    description: z.string().trim().optional(),
+    startDate: IsoDateSchema,
+    endDate: IsoDateSchema,
+    coverImageId: z.string().min(1, 'coverImageId must not be empty'),
+    // Images in the order the album presents them.
+    imageIds: z.array(z.string()).min(1, 'an album needs at least one image'),
+  })
+  .superRefine((album, ctx) => {
+    if (album.startDate > album.endDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: `endDate ${album.endDate} is before startDate ${album.startDate}` });
+    }
+    if (!album.imageIds.includes(album.coverImageId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coverImageId'], message: `cover "${album.coverImageId}" is not one of the album's images` });
+    }
+    const duplicates = album.imageIds.filter((id, index) => album.imageIds.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['imageIds'], message: `listed more than once: ${[...new Set(duplicates)].join(', ')}` });
+    }
+  });
+
+export type Album = z.infer<typeof AlbumSchema>;
+
+// Schema for albums.json, checked against the images that are actually in the manifest.
+const createAlbumsSchema = (images: ImagePlaceholder[]) => {
+  const knownIds = new Set(images.map(image => image.id));
+  return z
+    .object({ albums: z.array(AlbumSchema).min(1, 'there must be at least one album') })
+    .superRefine(({ albums }, ctx) => {
+      albums.forEach((album, index) => {
+        if (albums.findIndex(other => other.slug === album.slug) !== index) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['albums', index, 'slug'], message: `slug "${album.slug}" is used by another album` });
+        }
+        const unknownIds = album.imageIds.filter(id => !knownIds.has(id));
+        if (unknownIds.length > 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['albums', index, 'imageIds'], message: `not in the image manifest: ${unknownIds.join(', ')}` });
+        }
+      });
+    });
+};
+
+// Validates raw album data against the image manifest, throwing an error that lists every bad album.
+export const parseAlbums = (albumData: unknown, images: ImagePlaceholder[]): Album[] => {
+  const result = createAlbumsSchema(images).safeParse(albumData);
+  if (!result.success) {
+    throw new Error(formatManifestProblems(getManifestProblems(result.error, albumData, ALBUMS_SOURCE), ALBUMS_SOURCE));
+  }
+  return result.data.albums;
+};
+
+// Validate on load, like the image manifest, so a broken album fails the build.
+export const AllAlbums: Album[] = parseAlbums(data, AllImages);
+
+const imagesById = new Map(AllImages.map(image => [image.id, image]));
+
+export const getAlbum = (slug: string): Album | undefined => {
+  return AllAlbums.find(album => album.slug === slug);
+};
+
+// The album's images, in album order.
+export const getAlbumImages = (album: Album): ImagePlaceholder[] => {
+  return album.imageIds.map(id => imagesById.get(id) as ImagePlaceholder);
+};
+
+export const getAlbumCover = (album: Album): ImagePlaceholder => {
+  return imagesById.get(album.coverImageId) as ImagePlaceholder;
+};
+
+// The first album an image appears in, used to give a bare /memory/[id] link its context.
+export const getAlbumForImage = (imageId: string): Album | undefined => {
+  return AllAlbums.find(album => album.imageIds.includes(imageId));
+};
+
+// Ids of every image in at least one album, i.e. every image with a page of its own.
+export const getAlbumImageIds = (): string[] => {
+  return [...new Set(AllAlbums.flatMap(album => album.imageIds))];
+};
+
+// Human-readable date range, e.g. "15 Oct 2025" or "12 – 21 Oct 2025".
+export const formatAlbumDates = (album: Album): string => {
+  const start = parseISO(album.startDate);
+  const end = parseISO(album.endDate);
+  if (album.startDate === album.endDate) return format(start, 'd MMM yyyy');
+  if (format(start, 'MMM yyyy') === format(end, 'MMM yyyy')) return `${format(start, 'd')} – ${format(end, 'd MMM yyyy')}`;
+  if (format(start, 'yyyy') === format(end, 'yyyy')) return `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`;
+  return `${format(start, 'd MMM yyyy')} – ${format(end, 'd MMM yyyy')}`;
+};
@@ -0,0 +1,41 @@
+// src/lib/cache-budget.test.ts
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { evictToFit } from './cache-budget';
+import { getAllImageRecords, openDB, storeImage } from './indexed-db';
+
+const MINUTE = 60 * 1000;
+
+// Stores a 100 byte copy of each URL, last viewed the given number of minutes ago.
+const fillCache = async (viewedMinutesAgo: Record<string, number>) => {
+  for (const url of Object.keys(viewedMinutesAgo)) {
+    await storeImage(url, new Blob(['x'.repeat(100)], { type: 'image/webp' }));
+  }
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['imageAccess'], 'readwrite');
+    Object.entries(viewedMinutesAgo).forEach(([url, minutes]) => {
+      transaction.objectStore('imageAccess').put({ url, lastAccessedAt: Date.now() - minutes * MINUTE });
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const cachedUrls = async () => (await getAllImageRecords()).map(({ url }) => url).sort();
+
+test('evicts the least recently viewed copies first, only as many as needed', async () => {
+  await fillCache({ '/a.webp': 60, '/b.webp': 120, '/c.webp': 30, '/d.webp': 90 });
+  assert.equal(await evictToFit(400), true);
+  assert.deepEqual(await cachedUrls(), ['/a.webp', '/b.webp', '/c.webp', '/d.webp']);
+
+  assert.equal(await evictToFit(300, 50), true);
+  assert.deepEqual(await cachedUrls(), ['/a.webp', '/c.webp']);
+});
+
+test('never evicts an image viewed in the last few minutes, in this tab or another', async () => {
+  await fillCache({ '/on-screen.webp': 1, '/old.webp': 600 });
+  assert.equal(await evictToFit(0), false);
+  assert.deepEqual(await cachedUrls(), ['/on-screen.webp']);
+});
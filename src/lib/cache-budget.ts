@@ -0,0 +1,99 @@
+// src/lib/cache-budget.ts
+import { deleteImages, getAllImageRecords, getImageAccessTimes, openDB, recordImageView } from './indexed-db';
+
+// Share of the browser's storage quota the offline image cache may use, leaving room for everything else on the site.
+const CACHE_QUOTA_SHARE = 0.5;
+
+// How the offline cache can be used on this device.
+// - persistent: the browser has promised not to clear it under storage pressure
+// - best-effort: it works, but the browser may clear it when space runs low
+// - network-only: there is no usable storage (e.g. some private browsing modes), so images always come from the network
+export type StorageMode = 'persistent' | 'best-effort' | 'network-only';
+
+export type StorageStatus = {
+  mode: StorageMode;
+  // Bytes of image copies currently cached.
+  cachedBytes: number;
+  // Bytes the cache may grow to, or Infinity when the browser does not report a quota.
+  budget: number;
+};
+
+// Images on screen, in this tab or any other, keep recording views while shown; eviction skips any image viewed
+// within the grace window, which outlasts a few missed refreshes, e.g. from a tab the browser has throttled.
+const PIN_REFRESH_MS = 60 * 1000;
+const PIN_GRACE_MS = 5 * 60 * 1000;
+
+// Marks an image as on screen until the returned function is called.
+export const pinImage = (url: string): (() => void) => {
+  // Without IndexedDB there is no cache to evict from.
+  const recordView = () => recordImageView(url).catch(() => undefined);
+  recordView();
+  const timer = setInterval(recordView, PIN_REFRESH_MS);
+  return () => clearInterval(timer);
+};
+
+export const isQuotaExceededError = (error: unknown): boolean => {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === DOMException.QUOTA_EXCEEDED_ERR);
+};
+
+// Asks once per page load for the cache to be kept under storage pressure.
+// Browsers decide for themselves (e.g. from how often the site is visited); a refusal just means best-effort.
+let persistRequest: Promise<boolean> | undefined;
+const requestPersistentStorage = (): Promise<boolean> => {
+  if (!persistRequest) {
+    persistRequest = (async () => {
+      if (!navigator.storage?.persist) return false;
+      try {
+        return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+      } catch {
+        return false;
+      }
+    })();
+  }
+  return persistRequest;
+};
+
+const getCachedBytes = async (): Promise<number> => {
+  const records = await getAllImageRecords();
+  return records.reduce((total, record) => total + record.byteSize, 0);
+};
+
+// Measures the cache and the space the browser allows it, and asks for persistent storage along the way.
+export const checkStorage = async (): Promise<StorageStatus> => {
+  try {
+    await openDB();
+  } catch {
+    return { mode: 'network-only', cachedBytes: 0, budget: 0 };
+  }
+
+  const [isPersistent, estimate, cachedBytes] = await Promise.all([
+    requestPersistentStorage(),
+    navigator.storage?.estimate?.().catch(() => undefined),
+    getCachedBytes(),
+  ]);
+  const budget = estimate?.quota ? estimate.quota * CACHE_QUOTA_SHARE : Infinity;
+  return { mode: isPersistent ? 'persistent' : 'best-effort', cachedBytes, budget };
+};
+
+// Evicts the least recently viewed copies, skipping any image on screen in any tab, until the cache plus extraBytes fits the budget.
+// Returns false if even that cannot make enough room.
+export const evictToFit = async (budget: number, extraBytes = 0): Promise<boolean> => {
+  const records = await getAllImageRecords();
+  let cachedBytes = records.reduce((total, record) => total + record.byteSize, 0);
+  if (cachedBytes + extraBytes <= budget) return true;
+
+  const accessTimes = await getImageAccessTimes();
+  const pinnedSince = Date.now() - PIN_GRACE_MS;
+  const evicted: string[] = [];
+  for (const record of records) {
+    if (cachedBytes + extraBytes <= budget) break;
+    if ((accessTimes.get(record.url) ?? 0) > pinnedSince) continue;
+    evicted.push(record.url);
+    cachedBytes -= record.byteSize;
+  }
+  await deleteImages(evicted);
+  if (evicted.length > 0) {
+    console.log(`Evicted ${evicted.length} least recently viewed image(s) from the offline cache.`);
+  }
+  return cachedBytes + extraBytes <= budget;
+};
@@ -0,0 +1,16 @@
+// src/lib/content-hash.ts
+
+// Content hashes in the manifest are the first 16 hex digits of the SHA-256 of the file,
+// plenty to tell two versions of a photo apart.
+export const CONTENT_HASH_LENGTH = 16;
+
+// Hashes a downloaded file the same way the manifest does.
+// Returns null where the browser cannot hash: crypto.subtle only exists on secure origins (https and localhost).
+export const hashBlob = async (blob: Blob): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return [...new Uint8Array(digest)]
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, CONTENT_HASH_LENGTH);
+};
@@ -0,0 +1,102 @@
+// src/lib/download-queue.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createDownloadQueue, getRetryDelay, type DownloadTask } from './download-queue';
+
+const task = (url: string): DownloadTask => ({ url, attempts: 0, retryAt: 0 });
+
+// A queue with short delays, whose downloads are answered by `download`; resolves with what happened once idle.
+const runQueue = (
+  tasks: DownloadTask[],
+  download: (url: string) => Promise<void>,
+  setup: (queue: ReturnType<typeof createDownloadQueue>) => void = () => undefined
+) => new Promise<{ succeeded: string[]; failures: [string, boolean][] }>((resolve) => {
+  const succeeded: string[] = [];
+  const failures: [string, boolean][] = [];
+  const queue = createDownloadQueue({
+    concurrency: 2,
+    maxAttempts: 3,
+    baseDelayMs: 1,
+    maxDelayMs: 5,
+    download,
+    isRetryable: error => error !== 'missing',
+    onSuccess: url => succeeded.push(url),
+    onFailure: (url, _error, willRetry) => failures.push([url, willRetry]),
+    onIdle: () => resolve({ succeeded, failures }),
+  });
+  queue.add(tasks);
+  setup(queue);
+  queue.start();
+});
+
+test('retry delays double from the base delay up to the cap, give or take a quarter', () => {
+  for (let i = 0; i < 50; i++) {
+    const first = getRetryDelay(1, 100, 1000);
+    const third = getRetryDelay(3, 100, 1000);
+    const capped = getRetryDelay(10, 100, 1000);
+    assert.ok(first >= 75 && first <= 125);
+    assert.ok(third >= 300 && third <= 500);
+    assert.ok(capped >= 750 && capped <= 1250);
+  }
+});
+
+test('never runs more downloads at once than allowed', async () => {
+  let running = 0;
+  let mostRunning = 0;
+  const { succeeded } = await runQueue(['a', 'b', 'c', 'd', 'e'].map(task), async () => {
+    mostRunning = Math.max(mostRunning, ++running);
+    await new Promise(resolve => setTimeout(resolve, 2));
+    running--;
+  });
+  assert.equal(mostRunning, 2);
+  assert.deepEqual(succeeded.sort(), ['a', 'b', 'c', 'd', 'e']);
+});
+
+test('retries a failing download until it succeeds or runs out of attempts', async () => {
+  const attempts = new Map<string, number>();
+  const { succeeded, failures } = await runQueue([task('flaky'), task('broken')], async (url) => {
+    attempts.set(url, (attempts.get(url) ?? 0) + 1);
+    if (url === 'broken' || attempts.get(url) === 1) throw new Error('network');
+  });
+  assert.deepEqual(succeeded, ['flaky']);
+  assert.equal(attempts.get('broken'), 3);
+  assert.deepEqual(failures.filter(([url]) => url === 'broken').map(([, willRetry]) => willRetry), [true, true, false]);
+});
+
+test('gives up straight away on errors that a retry cannot fix', async () => {
+  let attempts = 0;
+  const { failures } = await runQueue([task('gone')], async () => {
+    attempts++;
+    throw 'missing';
+  });
+  assert.equal(attempts, 1);
+  assert.deepEqual(failures, [['gone', false]]);
+});
+
+test('prioritized URLs jump the queue in the order given', async () => {
+  const started: string[] = [];
+  await runQueue(['a', 'b', 'c', 'd', 'e'].map(task), async (url) => {
+    started.push(url);
+  }, queue => queue.prioritize(['e', 'd']));
+  assert.deepEqual(started.slice(0, 2), ['e', 'd']);
+});
+
+test('skips URLs that are already queued and keeps what is left when paused', () => {
+  const queue = createDownloadQueue({
+    concurrency: 1,
+    maxAttempts: 1,
+    baseDelayMs: 1,
+    maxDelayMs: 1,
+    download: () => new Promise(() => undefined),
+    isRetryable: () => false,
+    onSuccess: () => undefined,
+    onFailure: () => undefined,
+    onIdle: () => undefined,
+  });
+  queue.add([task('a'), task('b')]);
+  queue.add([task('b'), task('c')]);
+  assert.equal(queue.size, 3);
+  queue.start();
+  queue.pause();
+  assert.deepEqual(queue.tasks().map(({ url }) => url), ['a', 'b', 'c']);
+});
@@ -0,0 +1,132 @@
+// src/lib/download-queue.ts
+
+// One URL waiting to be downloaded, with how often it has failed and when it may be tried again.
+export type DownloadTask = {
+  url: string;
+  attempts: number;
+  retryAt: number;
+};
+
+type DownloadQueueOptions = {
+  // How many downloads may run at once.
+  concurrency: number;
+  // Attempts per URL before it is given up on.
+  maxAttempts: number;
+  // Wait before the first retry; it doubles with every further failure, with some jitter, up to maxDelayMs.
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Downloads and stores one URL, throwing if it failed.
+  download: (url: string) => Promise<void>;
+  // Whether trying again could help, e.g. not for a missing file.
+  isRetryable: (error: unknown) => boolean;
+  onSuccess: (url: string) => void;
+  // Called on every failed attempt; willRetry is false once the URL has been given up on.
+  onFailure: (url: string, error: unknown, willRetry: boolean) => void;
+  // Called once nothing is queued or in flight any more.
+  onIdle: () => void;
+};
+
+export type DownloadQueue = ReturnType<typeof createDownloadQueue>;
+
+// Delay before the next attempt, after `attempts` failures.
+export const getRetryDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+  // Up to a quarter either way, so many failures at once do not all retry in the same instant.
+  return delay * (0.75 + Math.random() * 0.5);
+};
+
+// A download queue that runs a bounded number of downloads at a time, retries failures with exponential backoff,
+// and lets URLs jump the queue when the visitor is about to see them.
+// Pausing lets downloads in flight finish but starts no new ones; tasks() gives what is left, e.g. to resume later.
+export const createDownloadQueue = (options: DownloadQueueOptions) => {
+  const { concurrency, maxAttempts, baseDelayMs, maxDelayMs } = options;
+  let pending: DownloadTask[] = [];
+  const active = new Map<string, DownloadTask>();
+  let isRunning = false;
+  let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const pump = () => {
+    clearTimeout(wakeTimer);
+    if (!isRunning) return;
+
+    const now = Date.now();
+    while (active.size < concurrency) {
+      const index = pending.findIndex(task => task.retryAt <= now);
+      if (index === -1) break;
+      const [task] = pending.splice(index, 1);
+      run(task);
+    }
+
+    if (active.size === 0 && pending.length === 0) {
+      isRunning = false;
+      options.onIdle();
+      return;
+    }
+    // Everything left is waiting out a backoff, so wake up when the first one is due.
+    if (active.size < concurrency && pending.length > 0) {
+      const nextRetryAt = Math.min(...pending.map(task => task.retryAt));
+      wakeTimer = setTimeout(pump, Math.max(0, nextRetryAt - now));
+    }
+  };
+
+  const run = async (task: DownloadTask) => {
+    active.set(task.url, task);
+    try {
+      await options.download(task.url);
+      options.onSuccess(task.url);
+    } catch (error) {
+      const attempts = task.attempts + 1;
+      const willRetry = attempts < maxAttempts && options.isRetryable(error);
+      if (willRetry) {
+        pending.push({ url: task.url, attempts, retryAt: Date.now() + getRetryDelay(attempts, baseDelayMs, maxDelayMs) });
+      }
+      options.onFailure(task.url, error, willRetry);
+    } finally {
+      active.delete(task.url);
+      pump();
+    }
+  };
+
+  return {
+    // Adds tasks at the back of the queue, skipping URLs that are already queued or downloading.
+    add(tasks: DownloadTask[]) {
+      const known = new Set([...pending.map(task => task.url), ...active.keys()]);
+      pending.push(...tasks.filter(task => !known.has(task.url)));
+      pump();
+    },
+
+    // Moves queued URLs to the front, in the order given, and lets any waiting out a backoff go again now.
+    prioritize(urls: string[]) {
+      const wanted = new Set(urls);
+      const front = urls.flatMap(url => pending.filter(task => task.url === url)).map(task => ({ ...task, retryAt: 0 }));
+      if (front.length === 0) return;
+      pending = [...front, ...pending.filter(task => !wanted.has(task.url))];
+      pump();
+    },
+
+    start() {
+      isRunning = true;
+      pump();
+    },
+
+    pause() {
+      isRunning = false;
+      clearTimeout(wakeTimer);
+    },
+
+    // Drops everything still queued; downloads in flight finish.
+    clear() {
+      pending = [];
+      clearTimeout(wakeTimer);
+    },
+
+    // Everything not yet downloaded, in flight first.
+    tasks(): DownloadTask[] {
+      return [...active.values(), ...pending];
+    },
+
+    get size() {
+      return active.size + pending.length;
+    },
+  };
+};
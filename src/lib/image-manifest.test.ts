@@ -0,0 +1,59 @@
+// src/lib/image-manifest.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import data from './placeholder-images.json';
+import { ImageManifestSchema, formatManifestProblems, getManifestProblems, parseImageManifest } from './image-manifest';
+
+// A copy of the committed manifest to break in one place.
+const copyManifest = () => structuredClone(data) as { version: string; placeholderImages: Record<string, unknown>[] };
+
+const getProblems = (manifest: unknown) => {
+  const result = ImageManifestSchema.safeParse(manifest);
+  assert.equal(result.success, false);
+  return result.success ? [] : getManifestProblems(result.error, manifest);
+};
+
+test('the committed manifest is valid', () => {
+  assert.equal(parseImageManifest(data).placeholderImages.length, data.placeholderImages.length);
+});
+
+test('names the entry and field of each problem', () => {
+  const manifest = copyManifest();
+  const [first, second] = manifest.placeholderImages;
+  first.imageUrl = '/elsewhere/2.jpeg';
+  second.alt = 'x'.repeat(126);
+  assert.deepEqual(getProblems(manifest), [
+    { entry: `${first.id} (entry #0)`, message: 'imageUrl: imageUrl must point to an image under /memories' },
+    { entry: `${second.id} (entry #1)`, message: 'alt: alt should be a short description of at most 125 characters' },
+  ]);
+});
+
+test('rejects ids used twice, naming the entry that has it first', () => {
+  const manifest = copyManifest();
+  manifest.placeholderImages[2].id = manifest.placeholderImages[0].id;
+  assert.deepEqual(getProblems(manifest), [
+    { entry: `${manifest.placeholderImages[0].id} (entry #2)`, message: `id: id "${manifest.placeholderImages[0].id}" is already used by entry #0` },
+  ]);
+});
+
+test('rejects content hashes and versions not written by the generator', () => {
+  const manifest = copyManifest();
+  manifest.version = 'latest';
+  (manifest.placeholderImages[0].variants as { sm: { hashes: { webp: string } } }).sm.hashes.webp = 'abc';
+  const problems = getProblems(manifest);
+  assert.deepEqual(problems.map(({ entry }) => entry), ['manifest', `${manifest.placeholderImages[0].id} (entry #0)`]);
+  assert.match(problems[1].message, /^variants\.sm\.hashes\.webp: must be the 16-character hash/);
+});
+
+test('reports problems grouped by entry', () => {
+  const report = formatManifestProblems([
+    { entry: 'jpeg-2 (entry #0)', message: 'width: must be positive' },
+    { entry: 'jpeg-2 (entry #0)', message: 'height: must be positive' },
+  ]);
+  assert.equal(report, [
+    'Invalid image manifest (src/lib/placeholder-images.json), 1 bad entry:',
+    '  jpeg-2 (entry #0)',
+    '    - width: must be positive',
+    '    - height: must be positive',
+  ].join('\n'));
+});
@@ -0,0 +1,193 @@
+// src/lib/image-manifest.ts
+import { z } from 'zod';
+import { CONTENT_HASH_LENGTH } from './content-hash';
+
+const ContentHashSchema = z
+  .string()
+  .regex(new RegExp(`^[0-9a-f]{${CONTENT_HASH_LENGTH}}$`), `must be the ${CONTENT_HASH_LENGTH}-character hash written by \`npm run manifest\``);
+
+// Longest alt text an entry may have; screen readers read it in one go, so it stays a short plain sentence.
+export const MAX_ALT_LENGTH = 125;
+
+// How many people a photo shows, and when it was taken, as tagged by `npm run tags`.
+export const GROUP_SIZES = ['none', 'one', 'few', 'many'] as const;
+export const TIMES_OF_DAY = ['morning', 'afternoon', 'evening', 'night', 'unknown'] as const;
+
+// Schema for the structured tags of a photo, which the grid's search matches against.
+export const ImageTagsSchema = z.object({
+  // What is going on, e.g. "drill parade" or "campfire".
+  activity: z.string().trim().min(1, 'activity must not be empty'),
+  // Where, e.g. "parade ground" or "mess hall".
+  setting: z.string().trim().min(1, 'setting must not be empty'),
+  groupSize: z.enum(GROUP_SIZES),
+  timeOfDay: z.enum(TIMES_OF_DAY),
+  // Anything else worth searching for, e.g. "flag" or "rifles".
+  keywords: z.array(z.string().trim().min(1)).max(8, 'keep to the 8 most telling keywords'),
+});
+
+// Id of a person recognised by `npm run faces`, e.g. "person-3"; their name is in src/lib/people.json.
+export const PersonIdSchema = z.string().regex(/^person-\d+$/, 'person ids look like "person-3"');
+
+// Schema for one resized copy of a photo, encoded in every format the gallery can serve.
+export const ImageVariantSchema = z.object({
+  width: z.number().int().positive('width must be a positive integer'),
+  height: z.number().int().positive('height must be a positive integer'),
+  webp: z.string().regex(/^\/memories\/variants\/[^/]+\.webp$/, 'webp must point to a file under /memories/variants'),
+  avif: z.string().regex(/^\/memories\/variants\/[^/]+\.avif$/, 'avif must point to a file under /memories/variants'),
+  // Content hash of each file, so cached copies can be checked and a replaced photo noticed under the same URL.
+  hashes: z.object({
+    webp: ContentHashSchema,
+    avif: ContentHashSchema,
+  }),
+});
+
+// Schema for a single entry of placeholder-images.json.
+export const ImagePlaceholderSchema = z
+  .object({
+    id: z.string().min(1, 'id must not be empty'),
+    description: z.string().trim().min(1, 'description must not be empty'),
+    // Plain description for screen readers, written by `npm run captions`; the description stands in until then.
+    alt: z.string().trim().min(1, 'alt must not be empty').max(MAX_ALT_LENGTH, `alt should be a short description of at most ${MAX_ALT_LENGTH} characters`).optional(),
+    imageUrl: z
+      .string()
+      .regex(/^\/memories\/[^/]+\.(jpe?g|png|webp|avif)$/i, 'imageUrl must point to an image under /memories'),
+    imageHint: z.string().trim().min(1, 'imageHint must not be empty'),
+    tags: ImageTagsSchema.optional(),
+    // Everyone whose face was recognised in the photo, written by `npm run faces`.
+    people: z.array(PersonIdSchema).optional(),
+    width: z.number().int().positive('width must be a positive integer'),
+    height: z.number().int().positive('height must be a positive integer'),
+    orientation: z.enum(['portrait', 'landscape']),
+    // Local time on the camera's clock when the photo was taken, with its UTC offset if the camera recorded one,
+    // e.g. "2025-10-15T09:47:43+05:30". Read from EXIF by `npm run manifest`.
+    takenAt: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}([+-]\d{2}:\d{2})?$/, 'takenAt must look like 2025-10-15T09:47:43, optionally with an offset like +05:30')
+      .optional(),
+    camera: z.string().trim().min(1, 'camera must not be empty').optional(),
+    // Small, medium and large copies generated at build time; see src/lib/image-variants.ts.
+    variants: z.object({
+      sm: ImageVariantSchema,
+      md: ImageVariantSchema,
+      lg: ImageVariantSchema,
+    }),
+    // Tiny inline preview painted while the real image loads.
+    placeholder: z
+      .string()
+      .regex(/^data:image\/(webp|jpeg|png);base64,[A-Za-z0-9+/=]+$/, 'placeholder must be a base64 image data URI')
+      .max(2048, 'placeholder must be a tiny preview, not a full image'),
+  })
+  .superRefine((image, ctx) => {
+    const expected = image.height > image.width ? 'portrait' : 'landscape';
+    if (image.orientation !== expected) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['orientation'],
+        message: `orientation is "${image.orientation}" but ${image.width}x${image.height} is ${expected}`,
+      });
+    }
+    (['sm', 'md', 'lg'] as const).forEach((size) => {
+      const variant = image.variants[size];
+      if (variant.width > image.width || variant.height > image.height) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['variants', size],
+          message: `${size} variant (${variant.width}x${variant.height}) is larger than the original ${image.width}x${image.height}`,
+        });
+      }
+    });
+  });
+
+// Schema for the whole manifest, including checks that span entries.
+export const ImageManifestSchema = z
+  .object({
+    // Hash of the entries, written by `npm run manifest`; cached copies record it so they can tell when they are stale.
+    version: z.string().regex(/^[0-9a-f]{12}$/, 'version must be the 12-character hash written by `npm run manifest`'),
+    placeholderImages: z.array(ImagePlaceholderSchema).min(1, 'the manifest must contain at least one image'),
+  })
+  .superRefine((manifest, ctx) => {
+    const firstIndexById = new Map<string, number>();
+    manifest.placeholderImages.forEach((image, index) => {
+      const firstIndex = firstIndexById.get(image.id);
+      if (firstIndex !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['placeholderImages', index, 'id'],
+          message: `id "${image.id}" is already used by entry #${firstIndex}`,
+        });
+      } else {
+        firstIndexById.set(image.id, index);
+      }
+    });
+  });
+
+export type ImageManifest = z.infer<typeof ImageManifestSchema>;
+export type ImageVariant = z.infer<typeof ImageVariantSchema>;
+export type ImageTags = z.infer<typeof ImageTagsSchema>;
+
+// A problem found in the manifest, tied to the entry it came from where possible.
+export type ManifestProblem = {
+  entry: string;
+  message: string;
+};
+
+// Describes a JSON data file validated by these helpers: where it lives, which array holds its
+// entries and which field names an entry.
+export type ManifestSource = {
+  label: string;
+  file: string;
+  listKey: string;
+  keyField: string;
+};
+
+export const IMAGE_MANIFEST_SOURCE: ManifestSource = {
+  label: 'image manifest',
+  file: 'src/lib/placeholder-images.json',
+  listKey: 'placeholderImages',
+  keyField: 'id',
+};
+
+// Describes an entry by its key when it has a usable one, otherwise by its position.
+const describeEntry = (data: unknown, index: number, source: ManifestSource): string => {
+  const entries = (data as Record<string, unknown> | null)?.[source.listKey];
+  const key = Array.isArray(entries) ? (entries[index] as Record<string, unknown> | null)?.[source.keyField] : undefined;
+  return typeof key === 'string' && key ? `${key} (entry #${index})` : `entry #${index}`;
+};
+
+// Turns zod issues into one problem per field, naming the manifest entry each belongs to.
+export const getManifestProblems = (
+  error: z.ZodError,
+  data: unknown,
+  source: ManifestSource = IMAGE_MANIFEST_SOURCE
+): ManifestProblem[] => {
+  return error.issues.map((issue) => {
+    const [root, index, ...field] = issue.path;
+    if (root === source.listKey && typeof index === 'number') {
+      const prefix = field.length > 0 ? `${field.join('.')}: ` : '';
+      return { entry: describeEntry(data, index, source), message: `${prefix}${issue.message}` };
+    }
+    return { entry: 'manifest', message: issue.message };
+  });
+};
+
+// Formats problems as a readable report, grouped by entry.
+export const formatManifestProblems = (
+  problems: ManifestProblem[],
+  source: ManifestSource = IMAGE_MANIFEST_SOURCE
+): string => {
+  const byEntry = new Map<string, string[]>();
+  problems.forEach(({ entry, message }) => {
+    byEntry.set(entry, [...(byEntry.get(entry) ?? []), message]);
+  });
+  const lines = [...byEntry].map(([entry, messages]) => `  ${entry}\n${messages.map(message => `    - ${message}`).join('\n')}`);
+  return `Invalid ${source.label} (${source.file}), ${byEntry.size} bad entr${byEntry.size === 1 ? 'y' : 'ies'}:\n${lines.join('\n')}`;
+};
+
+// Validates raw manifest data, throwing an error that lists every bad entry.
+export const parseImageManifest = (data: unknown): ImageManifest => {
+  const result = ImageManifestSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(formatManifestProblems(getManifestProblems(result.error, data)));
+  }
+  return result.data;
+};
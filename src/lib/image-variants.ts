@@ -0,0 +1,82 @@
+// src/lib/image-variants.ts
+import type { CSSProperties } from 'react';
+import type { ImagePlaceholder } from './placeholder-images';
+import type { ImageVariant } from './image-manifest';
+
+// Target widths of the resized copies generated for every memory. Photos are never upscaled,
+// so a variant of a small original can be narrower than its nominal width.
+export const VARIANT_WIDTHS = {
+  sm: 480,
+  md: 1080,
+  lg: 1920,
+} as const;
+
+export type VariantSize = keyof typeof VARIANT_WIDTHS;
+export type ImageFormat = 'avif' | 'webp';
+
+export const VARIANT_SIZES = Object.keys(VARIANT_WIDTHS) as VariantSize[];
+
+// The blurred background is scaled up and heavily blurred, so the smallest copy is always enough.
+export const BACKGROUND_VARIANT: VariantSize = 'sm';
+
+// Picks the smallest variant that is at least targetWidth device pixels wide, or the largest one there is.
+export const pickVariant = (image: ImagePlaceholder, targetWidth: number): ImageVariant => {
+  const variants = VARIANT_SIZES.map(size => image.variants[size]);
+  return variants.find(variant => variant.width >= targetWidth) ?? variants[variants.length - 1];
+};
+
+// URL of the smallest sufficient variant for an element targetCssWidth CSS pixels wide on this screen.
+export const getVariantUrl = (image: ImagePlaceholder, targetCssWidth: number, format: ImageFormat): string => {
+  const pixelRatio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  return pickVariant(image, Math.ceil(targetCssWidth * pixelRatio))[format];
+};
+
+// Whether an element targetCssWidth CSS pixels wide needs more detail than even the largest variant has,
+// e.g. a photo zoomed in well past 2x, so the original file is worth downloading.
+export const needsOriginal = (image: ImagePlaceholder, targetCssWidth: number): boolean => {
+  const pixelRatio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  const largest = image.variants[VARIANT_SIZES[VARIANT_SIZES.length - 1]];
+  return Math.ceil(targetCssWidth * pixelRatio) > largest.width && image.width > largest.width;
+};
+
+// CSS width the swipe view gives an image: 90vw on mobile, 85vh tall (keeping its aspect ratio) on desktop.
+export const getSwipeDisplayWidth = (image: ImagePlaceholder, isMobile: boolean): number => {
+  if (typeof window === 'undefined') return VARIANT_WIDTHS.md;
+  const aspectRatio = image.width / image.height;
+  return isMobile ? window.innerWidth * 0.9 : window.innerHeight * 0.85 * aspectRatio;
+};
+
+// CSS width of a frozen grid tile, matching the 2/3/4 column layout of the grid.
+export const getGridTileWidth = (): number => {
+  if (typeof window === 'undefined') return VARIANT_WIDTHS.sm;
+  const columns = window.innerWidth >= 1024 ? 4 : window.innerWidth >= 768 ? 3 : 2;
+  return window.innerWidth / columns;
+};
+
+// Every copy of an image this device displays (background, grid tile, swipe and zoomed view),
+// so all of them can be stored for offline use.
+export const getDisplayedVariantUrls = (image: ImagePlaceholder, format: ImageFormat): string[] => {
+  const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+  const swipeWidth = getSwipeDisplayWidth(image, isMobile);
+  return [...new Set([
+    image.variants[BACKGROUND_VARIANT][format],
+    getVariantUrl(image, getGridTileWidth(), format),
+    getVariantUrl(image, swipeWidth, format),
+    getVariantUrl(image, swipeWidth * 2, format),
+  ])];
+};
+
+// Content hash of every resized copy in the manifest by URL, to check downloaded and cached copies against.
+export const getVariantHashes = (images: ImagePlaceholder[]): Map<string, string> => {
+  return new Map(images.flatMap(image => VARIANT_SIZES.flatMap((size): [string, string][] => {
+    const variant = image.variants[size];
+    return [[variant.webp, variant.hashes.webp], [variant.avif, variant.hashes.avif]];
+  })));
+};
+
+// Paints the inline preview as a background, so it shows through until the image on top has decoded.
+export const getPlaceholderStyle = (image: ImagePlaceholder): CSSProperties => ({
+  backgroundImage: `url("${image.placeholder}")`,
+  backgroundSize: 'cover',
+  backgroundPosition: 'center',
+});
@@ -0,0 +1,56 @@
+// src/lib/indexed-db.test.ts
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getAllImageRecords, openDB } from './indexed-db';
+
+// Opens the database as the first release of the app did, with only the image store holding { url, blob }.
+const createV1Database = (images: { url: string; blob: Blob }[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open('MemoryLaneDB', 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('images', { keyPath: 'url' });
+      images.forEach((image) => store.put(image));
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const readAll = <T>(db: IDBDatabase, storeName: string): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+
+test('upgrading a v1 database to the latest version keeps every cached image whole', async () => {
+  const before = Date.now();
+  await createV1Database([
+    { url: '/memories/1.jpg', blob: new Blob(['first'], { type: 'image/jpeg' }) },
+    { url: '/memories/2.png', blob: new Blob(['second photo']) },
+  ]);
+
+  const records = await getAllImageRecords();
+  const byUrl = new Map(records.map((record) => [record.url, record]));
+  assert.equal(records.length, 2);
+
+  const first = byUrl.get('/memories/1.jpg');
+  assert.equal(first?.contentType, 'image/jpeg');
+  assert.equal(first?.byteSize, 5);
+  assert.ok(first && first.storedAt >= before);
+  assert.equal(first?.etag, null);
+  assert.equal(first?.contentHash, null);
+  assert.equal(first?.manifestVersion, null);
+  assert.ok(!('lastAccessedAt' in (first ?? {})));
+
+  const second = byUrl.get('/memories/2.png');
+  assert.equal(second?.contentType, 'image/png');
+  assert.equal(second?.byteSize, 12);
+
+  const accesses = await readAll<{ url: string; lastAccessedAt: number }>(await openDB(), 'imageAccess');
+  assert.deepEqual(accesses.map(({ url }) => url).sort(), ['/memories/1.jpg', '/memories/2.png']);
+  accesses.forEach(({ lastAccessedAt }) => assert.ok(lastAccessedAt >= before));
+});
@@ -1,9 +1,153 @@
 // src/lib/indexed-db.ts
+import type { DownloadTask } from './download-queue';
+
 const DB_NAME = 'MemoryLaneDB';
 const STORE_NAME = 'images';
-const DB_VERSION = 1;
+const CYCLE_STORE_NAME = 'viewingCycles';
+const SYNC_STORE_NAME = 'syncProgress';
+const ACCESS_STORE_NAME = 'imageAccess';
+
+// A cached copy of one image file, with what is known about where it came from.
+export type CachedImage = {
+  url: string;
+  blob: Blob;
+  contentType: string;
+  byteSize: number;
+  storedAt: number;
+  // ETag the server sent with the file, if any.
+  etag: string | null;
+  // Hash of the file's contents, if known.
+  contentHash: string | null;
+  // Version of the image manifest the copy was stored under; null for copies stored before it was recorded.
+  manifestVersion: string | null;
+};
+
+// When a page last showed an image, kept apart from the image records so the blob is never rewritten for a view.
+type ImageAccess = {
+  url: string;
+  lastAccessedAt: number;
+};
+
+// Where a stored copy came from, recorded alongside it.
+export type ImageSource = Partial<Pick<CachedImage, 'etag' | 'contentHash' | 'manifestVersion'>>;
+
+// A cache sync that has not finished yet, saved so the next page load carries on where it stopped.
+export type SyncProgress = {
+  id: string;
+  // Version of the image manifest the sync was working towards; progress towards an older one is thrown away.
+  manifestVersion: string;
+  tasks: DownloadTask[];
+  updatedAt: number;
+};
+
+// Where a visitor is in the shuffled cycle through one gallery, so a reload resumes instead of starting over.
+export type ViewingCycle = {
+  // The gallery the cycle belongs to, e.g. "/album/ncc-atc-camp".
+  scope: string;
+  // Image ids still to come in this cycle, in their shuffled order; the first one is shown next.
+  order: string[];
+  // Image ids already seen in this cycle.
+  seenIds: string[];
+  // The image on screen when the cycle was saved.
+  currentImageId: string | null;
+  updatedAt: number;
+};
+
+// Guesses the type of an image stored before types were recorded, from its file extension.
+const guessContentType = (url: string): string => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase();
+  if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg';
+  return extension ? `image/${extension}` : 'application/octet-stream';
+};
+
+// Fills in what an image record from an older version lacks, from its blob, so nothing is downloaded again.
+// Migrations of the images store share one upgrade transaction, and each cursor reads a record before the
+// earlier steps' writes to it land, so every step builds the whole current shape from whatever it finds.
+const toCachedImage = (value: Partial<CachedImage> & { url: string; blob: Blob }, now: number): CachedImage => ({
+  url: value.url,
+  blob: value.blob,
+  contentType: value.contentType ?? (value.blob.type || guessContentType(value.url)),
+  byteSize: value.byteSize ?? value.blob.size,
+  storedAt: value.storedAt ?? now,
+  etag: value.etag ?? null,
+  contentHash: value.contentHash ?? null,
+  manifestVersion: value.manifestVersion ?? null,
+});
+
+// Steps that bring the database up to each version in turn, run inside the upgrade transaction.
+// MIGRATIONS[n] upgrades version n to version n + 1; append new steps, never edit released ones.
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  // v1: the offline image cache, holding { url, blob }.
+  (db) => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'url' });
+  },
+  // v2: saved viewing cycles.
+  (db) => {
+    db.createObjectStore(CYCLE_STORE_NAME, { keyPath: 'scope' });
+  },
+  // v3: metadata on every cached image, filled in for existing copies from their blobs so nothing is downloaded again.
+  (_db, transaction) => {
+    const store = transaction.objectStore(STORE_NAME);
+    store.createIndex('lastAccessedAt', 'lastAccessedAt');
+    store.createIndex('storedAt', 'storedAt');
+    store.createIndex('manifestVersion', 'manifestVersion');
 
-let db: IDBDatabase;
+    const now = Date.now();
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      // Records kept their last view until v6 moved it to a store of its own.
+      const record: CachedImage & { lastAccessedAt: number } = {
+        ...toCachedImage(cursor.value, now),
+        lastAccessedAt: now,
+      };
+      cursor.update(record);
+      cursor.continue();
+    };
+  },
+  // v4: progress of unfinished cache syncs.
+  (db) => {
+    db.createObjectStore(SYNC_STORE_NAME, { keyPath: 'id' });
+  },
+  // v5: when each cached image was last viewed, as { url, lastAccessedAt }, apart from the image records.
+  (db) => {
+    db.createObjectStore(ACCESS_STORE_NAME, { keyPath: 'url' });
+  },
+  // v6: views live only in the access store; the last view each image record still carries is moved there,
+  // unless the store already has a later one.
+  (_db, transaction) => {
+    const store = transaction.objectStore(STORE_NAME);
+    const accessStore = transaction.objectStore(ACCESS_STORE_NAME);
+    store.deleteIndex('lastAccessedAt');
+
+    const now = Date.now();
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      // A record straight from v1 has no last view yet, and counts as viewed now like v3 would have made it.
+      const { lastAccessedAt = now, ...value } = cursor.value as CachedImage & { lastAccessedAt?: number };
+      const record = toCachedImage(value, now);
+      const accessRequest = accessStore.get(record.url);
+      accessRequest.onsuccess = () => {
+        const access = accessRequest.result as ImageAccess | undefined;
+        if (!access || access.lastAccessedAt < lastAccessedAt) {
+          accessStore.put({ url: record.url, lastAccessedAt });
+        }
+      };
+      cursor.update(record);
+      cursor.continue();
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// The open connection, shared by every call; cleared when it is closed so the next call opens a new one.
+let db: IDBDatabase | undefined;
 
 // Function to initialize and open the database.
 export const openDB = (): Promise<IDBDatabase> => {
@@ -11,8 +155,18 @@ export const openDB = (): Promise<IDBDatabase> => {
     if (db) {
       return resolve(db);
     }
+    // Some private browsing modes have no IndexedDB at all, or throw as soon as it is opened.
+    if (typeof indexedDB === 'undefined') {
+      return reject('IndexedDB is not available');
+    }
 
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let request: IDBOpenDBRequest;
+    try {
+      request = indexedDB.open(DB_NAME, DB_VERSION);
+    } catch (error) {
+      console.error('IndexedDB error:', error);
+      return reject('Error opening DB');
+    }
 
     request.onerror = (event) => {
       console.error('IndexedDB error:', event);
@@ -20,37 +174,80 @@ export const openDB = (): Promise<IDBDatabase> => {
     };
 
     request.onsuccess = (event) => {
-      db = (event.target as IDBOpenDBRequest).result;
-      resolve(db);
+      const connection = (event.target as IDBOpenDBRequest).result;
+      // Let a newer version of the app in another tab upgrade the database, and reopen it at that version next time.
+      connection.onversionchange = () => {
+        connection.close();
+        if (db === connection) db = undefined;
+      };
+      db = connection;
+      resolve(connection);
     };
 
+    // Run every migration between the version on disk and the current one, in order.
+    // They all share the upgrade transaction, so a failure leaves the database at its old version.
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'url' });
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
       }
     };
   });
 };
 
-// Function to store an image blob in the database.
-export const storeImage = async (url: string, blob: Blob): Promise<void> => {
+// Function to store an image blob in the database, along with where it came from.
+export const storeImage = async (url: string, blob: Blob, source: ImageSource = {}): Promise<void> => {
   const db = await openDB();
+  const now = Date.now();
+  const record: CachedImage = {
+    url,
+    blob,
+    contentType: blob.type || guessContentType(url),
+    byteSize: blob.size,
+    storedAt: now,
+    etag: source.etag ?? null,
+    contentHash: source.contentHash ?? null,
+    manifestVersion: source.manifestVersion ?? null,
+  };
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put({ url, blob });
+    // A new copy counts as just viewed, so it is not the first to be evicted.
+    const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record);
+    transaction.objectStore(ACCESS_STORE_NAME).put({ url, lastAccessedAt: now });
 
-    request.onsuccess = () => resolve();
-    request.onerror = (event) => {
-      console.error('Error storing image:', event);
-      reject('Error storing image');
+    // A full disk only shows up once the transaction commits, as a QuotaExceededError that aborts it,
+    // so wait for the commit and pass that error on for the caller to make room.
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      console.error('Error storing image:', transaction.error);
+      reject(transaction.error ?? 'Error storing image');
+    };
+  });
+};
+
+// Function to note that an image is on screen, so the least recently viewed copies are evicted first.
+// Pages call this for every image they show, whether or not a service worker is in control; the write goes to a
+// store of its own, so it never waits on, or holds up, reads and writes of the images themselves.
+export const recordImageView = async (url: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ACCESS_STORE_NAME], 'readwrite');
+    const access: ImageAccess = { url, lastAccessedAt: Date.now() };
+    transaction.objectStore(ACCESS_STORE_NAME).put(access);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      console.error('Error recording image view:', transaction.error);
+      reject('Error recording image view');
     };
   });
 };
 
-// Function to retrieve an image blob from the database.
-export const getImage = async (url: string): Promise<Blob | null> => {
+// Function to look up the cached copy of an image.
+// The service worker serves photos with this; pages just request the URL. The lookup is read-only, so any number
+// of them run side by side.
+export const getCachedImage = async (url: string): Promise<CachedImage | null> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readonly');
@@ -58,7 +255,7 @@ export const getImage = async (url: string): Promise<Blob | null> => {
     const request = store.get(url);
 
     request.onsuccess = () => {
-      resolve(request.result ? request.result.blob : null);
+      resolve(request.result ?? null);
     };
 
     request.onerror = (event) => {
@@ -67,3 +264,191 @@ export const getImage = async (url: string): Promise<Blob | null> => {
     };
   });
 };
+
+// Function to list every cached image, least recently viewed first.
+export const getAllImageRecords = async (): Promise<CachedImage[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readonly');
+    const recordsRequest = transaction.objectStore(STORE_NAME).getAll();
+    const accessesRequest = transaction.objectStore(ACCESS_STORE_NAME).getAll();
+
+    transaction.oncomplete = () => {
+      const accesses = new Map((accessesRequest.result as ImageAccess[]).map(({ url, lastAccessedAt }) => [url, lastAccessedAt]));
+      const records = recordsRequest.result as CachedImage[];
+      resolve(records.sort((a, b) => (accesses.get(a.url) ?? 0) - (accesses.get(b.url) ?? 0)));
+    };
+
+    transaction.onabort = () => {
+      console.error('Error listing cached images:', transaction.error);
+      reject('Error listing cached images');
+    };
+  });
+};
+
+// Function to look up when each cached image was last viewed, by URL, across every tab.
+export const getImageAccessTimes = async (): Promise<Map<string, number>> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([ACCESS_STORE_NAME], 'readonly');
+    const request = transaction.objectStore(ACCESS_STORE_NAME).getAll();
+
+    request.onsuccess = () => {
+      resolve(new Map((request.result as ImageAccess[]).map(({ url, lastAccessedAt }) => [url, lastAccessedAt])));
+    };
+
+    request.onerror = (event) => {
+      console.error('Error getting image access times:', event);
+      reject('Error getting image access times');
+    };
+  });
+};
+
+// Function to update where cached images came from without rewriting their blobs,
+// e.g. to mark copies that still match a newer manifest as current.
+export const updateImageSources = async (sources: Map<string, ImageSource>): Promise<void> => {
+  if (sources.size === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    sources.forEach((source, url) => {
+      const request = store.get(url);
+      request.onsuccess = () => {
+        const record = request.result as CachedImage | undefined;
+        if (record) {
+          store.put({ ...record, ...source });
+        }
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      console.error('Error updating images:', transaction.error);
+      reject('Error updating images');
+    };
+  });
+};
+
+// Function to remove cached images.
+export const deleteImages = async (urls: string[]): Promise<void> => {
+  if (urls.length === 0) return;
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const accessStore = transaction.objectStore(ACCESS_STORE_NAME);
+    urls.forEach((url) => {
+      store.delete(url);
+      accessStore.delete(url);
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      console.error('Error deleting images:', transaction.error);
+      reject('Error deleting images');
+    };
+  });
+};
+
+// Function to remove every cached image, leaving the rest of the database alone.
+export const clearImages = async (): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, ACCESS_STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(ACCESS_STORE_NAME).clear();
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => {
+      console.error('Error clearing images:', transaction.error);
+      reject('Error clearing images');
+    };
+  });
+};
+
+// Function to save the viewing cycle of a gallery.
+export const storeViewingCycle = async (cycle: ViewingCycle): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CYCLE_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(CYCLE_STORE_NAME);
+    const request = store.put(cycle);
+
+    request.onsuccess = () => resolve();
+    request.onerror = (event) => {
+      console.error('Error storing viewing cycle:', event);
+      reject('Error storing viewing cycle');
+    };
+  });
+};
+
+// Function to retrieve the saved viewing cycle of a gallery.
+export const getViewingCycle = async (scope: string): Promise<ViewingCycle | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CYCLE_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(CYCLE_STORE_NAME);
+    const request = store.get(scope);
+
+    request.onsuccess = () => {
+      resolve(request.result ?? null);
+    };
+
+    request.onerror = (event) => {
+      console.error('Error getting viewing cycle:', event);
+      reject('Error getting viewing cycle');
+    };
+  });
+};
+
+// Function to save the progress of an unfinished cache sync.
+export const storeSyncProgress = async (progress: SyncProgress): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SYNC_STORE_NAME);
+    const request = store.put(progress);
+
+    request.onsuccess = () => resolve();
+    request.onerror = (event) => {
+      console.error('Error storing sync progress:', event);
+      reject('Error storing sync progress');
+    };
+  });
+};
+
+// Function to retrieve the progress of an unfinished cache sync.
+export const getSyncProgress = async (id: string): Promise<SyncProgress | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(SYNC_STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      resolve(request.result ?? null);
+    };
+
+    request.onerror = (event) => {
+      console.error('Error getting sync progress:', event);
+      reject('Error getting sync progress');
+    };
+  });
+};
+
+// Function to forget a cache sync once it has finished.
+export const deleteSyncProgress = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SYNC_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(SYNC_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = (event) => {
+      console.error('Error deleting sync progress:', event);
+      reject('Error deleting sync progress');
+    };
+  });
+};
@@ -0,0 +1,35 @@
+// src/lib/memory-routes.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { getAlbumPath, getGalleryPath, parseGalleryPath } from './memory-routes';
+
+test('builds gallery paths under an album or the site root', () => {
+  const album = getAlbumPath('ncc atc');
+  assert.equal(album, '/album/ncc%20atc');
+  assert.equal(getGalleryPath(album, 'swipe', 'jpeg-2'), '/album/ncc%20atc/memory/jpeg-2');
+  assert.equal(getGalleryPath('', 'swipe', 'jpeg-2'), '/memory/jpeg-2');
+  assert.equal(getGalleryPath(album, 'frozen'), '/album/ncc%20atc?view=frozen');
+  assert.equal(getGalleryPath('', 'timeline'), '/?view=timeline');
+  assert.equal(getGalleryPath(album, 'swipe'), album);
+  assert.equal(getGalleryPath('', 'landing'), '/');
+});
+
+test('reads back every path it builds', () => {
+  const cases = [
+    { galleryMode: 'swipe', imageId: 'jpg 16' },
+    { galleryMode: 'frozen', imageId: null },
+    { galleryMode: 'timeline', imageId: null },
+    { galleryMode: 'landing', imageId: null },
+  ] as const;
+  for (const basePath of ['', getAlbumPath('camp')]) {
+    for (const location of cases) {
+      const [pathname, search = ''] = getGalleryPath(basePath, location.galleryMode, location.imageId).split('?');
+      assert.deepEqual(parseGalleryPath(pathname, search ? `?${search}` : ''), location);
+    }
+  }
+});
+
+test('treats unknown views and other paths as the landing page', () => {
+  assert.deepEqual(parseGalleryPath('/album/camp', '?view=map'), { galleryMode: 'landing', imageId: null });
+  assert.deepEqual(parseGalleryPath('/album/camp/memory/jpeg-2/', ''), { galleryMode: 'swipe', imageId: 'jpeg-2' });
+});
@@ -0,0 +1,45 @@
+// src/lib/memory-routes.ts
+
+// The views the gallery can be in: landing, swipe gallery, frozen grid, or the grid grouped by when photos were taken.
+export type GalleryMode = 'landing' | 'swipe' | 'frozen' | 'timeline';
+
+// What a URL tells us about the gallery: which view is open and, in swipe mode, which image.
+export type GalleryLocation = {
+  galleryMode: GalleryMode;
+  imageId: string | null;
+};
+
+// Path of an album's gallery; every other gallery path of that album hangs off it.
+export const getAlbumPath = (slug: string): string => {
+  return `/album/${encodeURIComponent(slug)}`;
+};
+
+// Builds the shareable path for a gallery view under basePath (an album path, or '' for the site root).
+// Swipe mode links straight to the image, the grid and the timeline get a query flag and everything else is the gallery's landing page.
+export const getGalleryPath = (basePath: string, galleryMode: GalleryMode, imageId?: string | null): string => {
+  if (galleryMode === 'swipe' && imageId) {
+    return getMemoryPath(imageId, basePath);
+  }
+  if (galleryMode === 'frozen' || galleryMode === 'timeline') {
+    return `${basePath || '/'}?view=${galleryMode}`;
+  }
+  return basePath || '/';
+};
+
+// Path of the deep-linkable page for a single memory.
+export const getMemoryPath = (imageId: string, basePath = ''): string => {
+  return `${basePath}/memory/${encodeURIComponent(imageId)}`;
+};
+
+// Reads the gallery view back out of a pathname and query string, the inverse of getGalleryPath.
+export const parseGalleryPath = (pathname: string, search: string): GalleryLocation => {
+  const memoryMatch = pathname.match(/\/memory\/([^/]+)\/?$/);
+  if (memoryMatch) {
+    return { galleryMode: 'swipe', imageId: decodeURIComponent(memoryMatch[1]) };
+  }
+  const view = new URLSearchParams(search).get('view');
+  if (view === 'frozen' || view === 'timeline') {
+    return { galleryMode: view, imageId: null };
+  }
+  return { galleryMode: 'landing', imageId: null };
+};
@@ -0,0 +1,75 @@
+// src/lib/people.ts
+import { z } from 'zod';
+import data from './people.json';
+import { AllImages, type ImagePlaceholder } from './placeholder-images';
+import { PersonIdSchema, formatManifestProblems, getManifestProblems, type ManifestSource } from './image-manifest';
+
+const PEOPLE_SOURCE: ManifestSource = {
+  label: 'people list',
+  file: 'src/lib/people.json',
+  listKey: 'people',
+  keyField: 'id',
+};
+
+// Schema for one person: a group of faces `npm run faces` found to be the same. The name is filled in by hand;
+// until then the person is left out of the People filter.
+export const PersonSchema = z.object({
+  id: PersonIdSchema,
+  name: z.string().trim().min(1, 'name must not be empty; leave it out until you know who it is').optional(),
+});
+
+export type Person = z.infer<typeof PersonSchema>;
+
+// Schema for people.json, checked against the person ids the image manifest uses.
+const createPeopleSchema = (images: ImagePlaceholder[]) => {
+  return z
+    .object({ people: z.array(PersonSchema) })
+    .superRefine(({ people }, ctx) => {
+      const knownIds = new Set(people.map(person => person.id));
+      people.forEach((person, index) => {
+        if (people.findIndex(other => other.id === person.id) !== index) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['people', index, 'id'], message: `id "${person.id}" is listed more than once` });
+        }
+      });
+      const unknownIds = [...new Set(images.flatMap(image => image.people ?? []))].filter(id => !knownIds.has(id));
+      if (unknownIds.length > 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['people'], message: `used by the image manifest but missing: ${unknownIds.join(', ')}` });
+      }
+    });
+};
+
+// Validates raw people data against the image manifest, throwing an error that lists every bad entry.
+export const parsePeople = (peopleData: unknown, images: ImagePlaceholder[]): Person[] => {
+  const result = createPeopleSchema(images).safeParse(peopleData);
+  if (!result.success) {
+    throw new Error(formatManifestProblems(getManifestProblems(result.error, peopleData, PEOPLE_SOURCE), PEOPLE_SOURCE));
+  }
+  return result.data.people;
+};
+
+// Validate on load, like the albums, so a broken list fails the build.
+export const AllPeople: Person[] = parsePeople(data, AllImages);
+
+// A named person as the People filter offers them. Clusters given the same name count as one person,
+// which is how two clusters that turn out to be the same face are merged.
+export type NamedPerson = {
+  name: string;
+  personIds: string[];
+  imageCount: number;
+};
+
+// Named people who appear in any of the images, most photographed first.
+export const getNamedPeople = (images: ImagePlaceholder[]): NamedPerson[] => {
+  const byName = new Map<string, string[]>();
+  AllPeople.forEach(({ id, name }) => {
+    if (name) byName.set(name, [...(byName.get(name) ?? []), id]);
+  });
+  return [...byName.entries()]
+    .map(([name, personIds]) => ({
+      name,
+      personIds,
+      imageCount: images.filter(image => image.people?.some(id => personIds.includes(id))).length,
+    }))
+    .filter(person => person.imageCount > 0)
+    .sort((a, b) => b.imageCount - a.imageCount || a.name.localeCompare(b.name));
+};
@@ -1,18 +1,18 @@
+import { z } from 'zod';
 import data from './placeholder-images.json';
+import { ImagePlaceholderSchema, parseImageManifest } from './image-manifest';
 
 // Extend the type to include dimensions and orientation for layout handling.
-export type ImagePlaceholder = {
-  id: string;
-  description: string;
-  imageUrl: string;
-  imageHint: string;
-  width: number;
-  height: number;
-  orientation: 'portrait' | 'landscape';
-};
+// The shape is defined by the manifest schema so the type and the validation can never drift apart.
+export type ImagePlaceholder = z.infer<typeof ImagePlaceholderSchema>;
 
-// Assert the type of the imported data to match our extended ImagePlaceholder type.
-export const AllImages: ImagePlaceholder[] = data.placeholderImages as ImagePlaceholder[];
+// Validate the manifest when this module loads, so a bad entry fails the build instead of breaking the gallery at runtime.
+const manifest = parseImageManifest(data);
+
+export const AllImages: ImagePlaceholder[] = manifest.placeholderImages;
+
+// Changes whenever any entry does, e.g. when a photo is added or re-exported.
+export const ManifestVersion: string = manifest.version;
 
 // Create a pre-filtered list of portrait images for convenience.
 export const PortraitImages: ImagePlaceholder[] = AllImages.filter(
@@ -0,0 +1,82 @@
+// src/lib/search.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ImagePlaceholder } from './placeholder-images';
+import { getSearchVersion, searchImages, tokenize, type SearchIndex } from './search';
+
+const makeImage = (id: string, fields: Partial<ImagePlaceholder> = {}): ImagePlaceholder => ({
+  id,
+  description: 'A memory from the NCC ATC camp.',
+  imageUrl: `/memories/${id}.jpeg`,
+  imageHint: 'camp memory',
+  width: 1600,
+  height: 1200,
+  orientation: 'landscape',
+  ...fields,
+} as ImagePlaceholder);
+
+const tags = (activity: string, setting: string, keywords: string[] = []): ImagePlaceholder['tags'] => ({
+  activity,
+  setting,
+  groupSize: 'many',
+  timeOfDay: 'morning',
+  keywords,
+});
+
+// Encodes a vector the way `npm run tags` stores it: unit length, as base64 int8.
+const encode = (vector: number[]): string => {
+  const length = Math.hypot(...vector);
+  return Buffer.from(Int8Array.from(vector, value => Math.round((value / length) * 127)).buffer).toString('base64');
+};
+
+const ids = (images: ImagePlaceholder[]) => images.map(image => image.id);
+
+test('tokenize keeps lowercase words and drops stop words and single letters', () => {
+  assert.deepEqual(tokenize('Show me the Drill-Parade at 6 AM'), ['drill', 'parade', 'am']);
+});
+
+test('an empty query or one of stop words alone matches nothing', () => {
+  assert.deepEqual(searchImages([makeImage('a')], '  the  ', null), []);
+});
+
+test('keyword matches in the tags outrank matches in the caption', () => {
+  const images = [
+    makeImage('caption', { description: 'Cadets walk past the parade ground.' }),
+    makeImage('tagged', { tags: tags('drill parade', 'parade ground') }),
+    makeImage('other', { tags: tags('campfire', 'camp ground') }),
+  ];
+  assert.deepEqual(ids(searchImages(images, 'parade', null)), ['tagged', 'caption']);
+});
+
+test('a word being typed matches the start of a longer word at half weight', () => {
+  const images = [
+    makeImage('prefix', { tags: tags('drill parade', 'field') }),
+    makeImage('exact', { description: 'The parad of the day.' }),
+  ];
+  assert.deepEqual(ids(searchImages(images, 'parad', null)), ['prefix', 'exact']);
+  assert.deepEqual(ids(searchImages(images, 'pa', null)), []);
+});
+
+test('with an index, images that only match by meaning are found and ranked by how close they are', () => {
+  const images = [
+    makeImage('fire', { description: 'Cadets sit in a circle at night.' }),
+    makeImage('near', { description: 'Evening gathering.' }),
+    makeImage('far', { description: 'Morning drill.' }),
+  ];
+  const index: SearchIndex = {
+    textVersion: getSearchVersion(images),
+    dimensions: 3,
+    images: { fire: encode([1, 0, 0]), near: encode([0.9, 0.3, 0]), far: encode([0, 0, 1]) },
+    terms: { bonfire: encode([1, 0.1, 0]) },
+  };
+  assert.deepEqual(ids(searchImages(images, 'bonfire', index)), ['fire', 'near']);
+  assert.deepEqual(ids(searchImages(images, 'bonfire', null)), []);
+});
+
+test('the search version follows the searchable text only', () => {
+  const images = [makeImage('a', { tags: tags('campfire', 'field') })];
+  const version = getSearchVersion(images);
+  assert.match(version, /^[0-9a-f]{8}$/);
+  assert.equal(getSearchVersion([{ ...images[0], width: 800, height: 600 }]), version);
+  assert.notEqual(getSearchVersion([{ ...images[0], description: 'A campfire at night.' }]), version);
+});
@@ -0,0 +1,148 @@
+// src/lib/search.ts
+import type { ImageTags } from './image-manifest';
+import type { ImagePlaceholder } from './placeholder-images';
+
+// Precomputed by `npm run tags` and served from /search-index.json. Vectors are unit-length text embeddings
+// stored as base64 int8 (each value times 127), one per image and one per word a search can use.
+// The browser has no embedding model, so a query is embedded as the mean of the vectors of its known words.
+export type SearchIndex = {
+  // getSearchVersion of the images the index was built from.
+  textVersion: string;
+  dimensions: number;
+  images: Record<string, string>;
+  terms: Record<string, string>;
+};
+
+export const SEARCH_INDEX_URL = '/search-index.json';
+
+// Words that say nothing about a photo and would match almost every one.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or',
+  'the', 'their', 'to', 'with', 'me', 'my', 'photo', 'photos', 'picture', 'pictures', 'show',
+]);
+
+// Lowercase words of a text, without stop words; the same rules build the index and read a query.
+export const tokenize = (text: string): string[] => {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(word => word.length > 1 && !STOP_WORDS.has(word));
+};
+
+// Words a search for the number of people in a photo is likely to use.
+const GROUP_SIZE_WORDS: Record<ImageTags['groupSize'], string> = {
+  none: 'nobody scenery',
+  one: 'solo',
+  few: 'friends small group',
+  many: 'group crowd',
+};
+
+// The text of an image that is embedded into the index, and matched word by word against a query.
+export const getSearchFields = (image: ImagePlaceholder): { text: string; weight: number }[] => {
+  const { tags } = image;
+  return [
+    { text: tags ? `${tags.activity} ${tags.setting}` : '', weight: 3 },
+    { text: [image.imageHint, ...(tags?.keywords ?? [])].join(' '), weight: 2 },
+    { text: tags ? `${tags.timeOfDay === 'unknown' ? '' : tags.timeOfDay} ${GROUP_SIZE_WORDS[tags.groupSize]}` : '', weight: 2 },
+    { text: `${image.description} ${image.alt ?? ''}`, weight: 1 },
+  ];
+};
+
+export const getSearchDocument = (image: ImagePlaceholder): string => {
+  return getSearchFields(image).map(field => field.text.trim()).filter(Boolean).join('. ');
+};
+
+// Version of the text an index embeds: a hash of every image's search document, so re-encoded photos or other
+// manifest changes leave the index usable and only new photos, captions and tags make it out of date.
+// FNV-1a rather than SHA-256 so the browser can work it out synchronously, even where crypto.subtle is missing.
+export const getSearchVersion = (images: ImagePlaceholder[]): string => {
+  const text = JSON.stringify(images.map(image => [image.id, getSearchDocument(image)]));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const decodeVector = (encoded: string): Float32Array => {
+  const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+  return Float32Array.from(new Int8Array(bytes.buffer), value => value / 127);
+};
+
+let indexPromise: Promise<SearchIndex | null> | null = null;
+
+// Fetches the index the first time it is needed. Without one (never generated, offline before it was cached, or
+// built from other captions and tags, whose vectors no longer match the photos) search works on keywords alone.
+export const loadSearchIndex = (textVersion: string): Promise<SearchIndex | null> => {
+  indexPromise ??= fetch(SEARCH_INDEX_URL)
+    .then(response => (response.ok ? (response.json() as Promise<SearchIndex>) : null))
+    .then((index) => {
+      if (index && index.textVersion !== textVersion) {
+        console.warn('The search index is out of date; searching by keyword only. Run `npm run tags` to rebuild it.');
+        return null;
+      }
+      return index;
+    })
+    .catch(() => null);
+  return indexPromise;
+};
+
+// How much a full semantic match counts against a keyword match in one of the weight 1 fields.
+const SEMANTIC_WEIGHT = 3;
+// Images only semantically related to the query are kept if they come close to the best match and clear this floor.
+const MIN_SIMILARITY = 0.3;
+const SIMILARITY_MARGIN = 0.1;
+
+const cosine = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] * a[i];
+    lengthB += b[i] * b[i];
+  }
+  return lengthA && lengthB ? dot / Math.sqrt(lengthA * lengthB) : 0;
+};
+
+// Mean of the vectors of the query words the index knows, or null if it knows none of them.
+const embedQuery = (words: string[], index: SearchIndex): Float32Array | null => {
+  const vectors = words.flatMap(word => (index.terms[word] ? [decodeVector(index.terms[word])] : []));
+  if (vectors.length === 0) return null;
+  const mean = new Float32Array(index.dimensions);
+  vectors.forEach(vector => vector.forEach((value, i) => (mean[i] += value / vectors.length)));
+  return mean;
+};
+
+// Each query word scores the weight of the best field it appears in; a word that only starts a field's word
+// (e.g. "parad" while typing "parade") scores half.
+const scoreKeywords = (words: string[], image: ImagePlaceholder): number => {
+  const fields = getSearchFields(image).map(field => ({ words: tokenize(field.text), weight: field.weight }));
+  return words.reduce((total, word) => {
+    const best = Math.max(0, ...fields.map(field => {
+      if (field.words.includes(word)) return field.weight;
+      return word.length >= 3 && field.words.some(fieldWord => fieldWord.startsWith(word)) ? field.weight / 2 : 0;
+    }));
+    return total + best;
+  }, 0);
+};
+
+// Ranks images against a query, best first, leaving out those that match neither by keyword nor by meaning.
+export const searchImages = (images: ImagePlaceholder[], query: string, index: SearchIndex | null): ImagePlaceholder[] => {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  const queryVector = index ? embedQuery(words, index) : null;
+  const scored = images.map(image => {
+    const encoded = index?.images[image.id];
+    return {
+      image,
+      keywordScore: scoreKeywords(words, image),
+      similarity: queryVector && encoded ? cosine(queryVector, decodeVector(encoded)) : 0,
+    };
+  });
+
+  const bestSimilarity = Math.max(0, ...scored.map(({ similarity }) => similarity));
+  const similarityCutoff = Math.max(MIN_SIMILARITY, bestSimilarity - SIMILARITY_MARGIN);
+  return scored
+    .filter(({ keywordScore, similarity }) => keywordScore > 0 || similarity >= similarityCutoff)
+    .sort((a, b) => (b.keywordScore + b.similarity * SEMANTIC_WEIGHT) - (a.keywordScore + a.similarity * SEMANTIC_WEIGHT))
+    .map(({ image }) => image);
+};
@@ -0,0 +1,54 @@
+// src/lib/timeline.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ImagePlaceholder } from './placeholder-images';
+import { filterByDate, formatDateFilter, formatTimelineDay, getPhotoCountsByDate, getTimeline } from './timeline';
+
+const makeImage = (id: string, takenAt?: string): ImagePlaceholder => ({
+  id,
+  description: 'A memory from the NCC ATC camp.',
+  imageUrl: `/memories/${id}.jpeg`,
+  imageHint: 'camp memory',
+  width: 1600,
+  height: 1200,
+  orientation: 'landscape',
+  takenAt,
+} as ImagePlaceholder);
+
+const images = [
+  makeImage('late', '2025-10-16T18:05:00+05:30'),
+  makeImage('undated'),
+  makeImage('early', '2025-10-15T09:47:00+05:30'),
+  makeImage('same-hour', '2025-10-15T09:12:00'),
+  makeImage('before', '2025-10-13T12:00:00'),
+];
+
+test('groups photos by day and hour in the order they were taken, undated ones last', () => {
+  const { days, undated } = getTimeline(images, '2025-10-14');
+  assert.deepEqual(days.map(day => [day.date, day.dayNumber]), [
+    ['2025-10-13', null],
+    ['2025-10-15', 2],
+    ['2025-10-16', 3],
+  ]);
+  assert.deepEqual(days[1].hours.map(hour => [hour.key, hour.images.map(image => image.id)]), [
+    ['2025-10-15T09', ['same-hour', 'early']],
+  ]);
+  assert.deepEqual(undated.map(image => image.id), ['undated']);
+});
+
+test('numbers days from the earliest photo when the album has no start date', () => {
+  assert.deepEqual(getTimeline(images).days.map(day => day.dayNumber), [1, 3, 4]);
+  assert.equal(formatTimelineDay(getTimeline(images).days[1]), 'Day 3 · Wed 15 Oct');
+});
+
+test('counts and filters photos by the date on the camera clock', () => {
+  assert.deepEqual([...getPhotoCountsByDate(images)], [['2025-10-16', 1], ['2025-10-15', 2], ['2025-10-13', 1]]);
+  assert.deepEqual(filterByDate(images, { from: '2025-10-15', to: '2025-10-16' }).map(image => image.id), ['late', 'early', 'same-hour']);
+});
+
+test('formats a date filter without repeating the month or year', () => {
+  assert.equal(formatDateFilter({ from: '2025-10-15', to: '2025-10-15' }), '15 Oct 2025');
+  assert.equal(formatDateFilter({ from: '2025-10-15', to: '2025-10-17' }), '15 – 17 Oct 2025');
+  assert.equal(formatDateFilter({ from: '2025-10-30', to: '2025-11-02' }), '30 Oct – 2 Nov 2025');
+  assert.equal(formatDateFilter({ from: '2024-12-30', to: '2025-01-02' }), '30 Dec 2024 – 2 Jan 2025');
+});
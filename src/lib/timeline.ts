@@ -0,0 +1,107 @@
+// src/lib/timeline.ts
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { ImagePlaceholder } from './placeholder-images';
+
+// Photos taken in the same hour of the same day.
+export type TimelineHour = {
+  // e.g. "2025-10-15T09", unique across the timeline.
+  key: string;
+  hour: number;
+  images: ImagePlaceholder[];
+};
+
+export type TimelineDay = {
+  // Calendar date, e.g. "2025-10-15".
+  date: string;
+  // Day of the camp counting from 1, or null for a day before it started.
+  dayNumber: number | null;
+  hours: TimelineHour[];
+};
+
+export type Timeline = {
+  days: TimelineDay[];
+  // Photos without a capture time, shown after the dated ones.
+  undated: ImagePlaceholder[];
+};
+
+// Date and hour as the camera's clock showed them; the camp happened in one place, so its local time is what
+// matters and the UTC offset is ignored.
+const getLocalDate = (takenAt: string): string => takenAt.slice(0, 10);
+const getLocalHour = (takenAt: string): number => Number(takenAt.slice(11, 13));
+
+// Groups photos by the day and hour they were taken, in order. Days are numbered from startDate (the album's first
+// day), or from the earliest photo without one.
+export const getTimeline = (images: ImagePlaceholder[], startDate?: string): Timeline => {
+  const dated = images
+    .filter((image): image is ImagePlaceholder & { takenAt: string } => Boolean(image.takenAt))
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  const firstDate = startDate ?? (dated.length > 0 ? getLocalDate(dated[0].takenAt) : undefined);
+
+  const days: TimelineDay[] = [];
+  for (const image of dated) {
+    const date = getLocalDate(image.takenAt);
+    const hour = getLocalHour(image.takenAt);
+    let day = days[days.length - 1];
+    if (day?.date !== date) {
+      const offset = firstDate ? differenceInCalendarDays(parseISO(date), parseISO(firstDate)) : 0;
+      day = { date, dayNumber: offset >= 0 ? offset + 1 : null, hours: [] };
+      days.push(day);
+    }
+    let slot = day.hours[day.hours.length - 1];
+    if (slot?.hour !== hour) {
+      slot = { key: image.takenAt.slice(0, 13), hour, images: [] };
+      day.hours.push(slot);
+    }
+    slot.images.push(image);
+  }
+
+  return { days, undated: images.filter(image => !image.takenAt) };
+};
+
+// e.g. "Day 1 · Wed 15 Oct".
+export const formatTimelineDay = (day: TimelineDay): string => {
+  const date = format(parseISO(day.date), 'EEE d MMM');
+  return day.dayNumber ? `Day ${day.dayNumber} · ${date}` : date;
+};
+
+// e.g. "09:00".
+export const formatTimelineHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+// Inclusive range of calendar dates, e.g. { from: "2025-10-15", to: "2025-10-17" }; a single day has from === to.
+export type DateFilter = {
+  from: string;
+  to: string;
+};
+
+// Calendar date a photo was taken on, as the camera's clock showed it, or null if it is not known.
+export const getTakenDate = (image: ImagePlaceholder): string | null => {
+  return image.takenAt ? getLocalDate(image.takenAt) : null;
+};
+
+// Number of photos taken on each date; photos without a date are not counted.
+export const getPhotoCountsByDate = (images: ImagePlaceholder[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  images.forEach((image) => {
+    const date = getTakenDate(image);
+    if (date) counts.set(date, (counts.get(date) ?? 0) + 1);
+  });
+  return counts;
+};
+
+// The photos taken within the filter's dates, in their original order. Photos without a date never match.
+export const filterByDate = (images: ImagePlaceholder[], filter: DateFilter): ImagePlaceholder[] => {
+  return images.filter((image) => {
+    const date = getTakenDate(image);
+    return date !== null && date >= filter.from && date <= filter.to;
+  });
+};
+
+// e.g. "15 Oct 2025" or "15 – 17 Oct 2025".
+export const formatDateFilter = (filter: DateFilter): string => {
+  const from = parseISO(filter.from);
+  const to = parseISO(filter.to);
+  if (filter.from === filter.to) return format(from, 'd MMM yyyy');
+  if (format(from, 'MMM yyyy') === format(to, 'MMM yyyy')) return `${format(from, 'd')} – ${format(to, 'd MMM yyyy')}`;
+  if (format(from, 'yyyy') === format(to, 'yyyy')) return `${format(from, 'd MMM')} – ${format(to, 'd MMM yyyy')}`;
+  return `${format(from, 'd MMM yyyy')} – ${format(to, 'd MMM yyyy')}`;
+};
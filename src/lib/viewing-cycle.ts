@@ -0,0 +1,48 @@
+// src/lib/viewing-cycle.ts
+import type { ImagePlaceholder } from './placeholder-images';
+import type { ViewingCycle } from './indexed-db';
+import { getShuffledArray } from './utils';
+
+// Works out which images are still to come in the visitor's cycle through a gallery, in order.
+// A saved cycle is resumed as far as it still matches the gallery: images that have since been removed are dropped,
+// and images added since it was saved are shuffled in after the rest. Without a saved cycle a fresh shuffle starts.
+// The image already on screen, if any, counts as seen.
+export const resumeViewingCycle = (
+  images: ImagePlaceholder[],
+  saved: ViewingCycle | null,
+  shownImageId?: string,
+): ImagePlaceholder[] => {
+  let queue = getShuffledArray(images);
+
+  if (saved) {
+    const imagesById = new Map(images.map(image => [image.id, image]));
+    const known = new Set([...saved.order, ...saved.seenIds]);
+    const remaining = saved.order.flatMap(id => imagesById.get(id) ?? []);
+    const added = images.filter(image => !known.has(image.id));
+    queue = [...remaining, ...getShuffledArray(added)];
+  }
+
+  queue = queue.filter(image => image.id !== shownImageId);
+  // Everything has been seen already, so start the next cycle straight away.
+  if (queue.length === 0) {
+    queue = getShuffledArray(images.filter(image => image.id !== shownImageId));
+  }
+  return queue;
+};
+
+// Snapshot of a cycle in the form it is saved in IndexedDB.
+export const toViewingCycle = (
+  scope: string,
+  images: ImagePlaceholder[],
+  upcoming: ImagePlaceholder[],
+  currentImageId: string | null,
+): ViewingCycle => {
+  const upcomingIds = new Set(upcoming.map(image => image.id));
+  return {
+    scope,
+    order: upcoming.map(image => image.id),
+    seenIds: images.filter(image => !upcomingIds.has(image.id)).map(image => image.id),
+    currentImageId,
+    updatedAt: Date.now(),
+  };
+};
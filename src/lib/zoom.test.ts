@@ -0,0 +1,49 @@
+// src/lib/zoom.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ImagePlaceholder } from './placeholder-images';
+import { DEFAULT_ZOOM, RESTING_VIEW, centerViewOn, clampView, getMaxZoom, getVisibleRegion, rubberBand, rubberBandScale, zoomAround } from './zoom';
+
+const base = { width: 800, height: 600 };
+const frame = { width: 800, height: 600 };
+
+test('zooms as deep as one photo pixel per screen pixel, and at least to the default zoom', () => {
+  assert.equal(getMaxZoom({ width: 4000 } as ImagePlaceholder, 800), 5);
+  assert.equal(getMaxZoom({ width: 1000 } as ImagePlaceholder, 800), DEFAULT_ZOOM);
+});
+
+test('clamps a pan so the image keeps covering its frame', () => {
+  assert.deepEqual(clampView({ scale: 2, x: 1000, y: -1000 }, base, frame), { scale: 2, x: 400, y: -300 });
+  assert.deepEqual(clampView({ scale: 1, x: 50, y: 50 }, base, frame), { scale: 1, x: 0, y: 0 });
+});
+
+test('lets a drag past the edge carry on with growing resistance', () => {
+  assert.equal(rubberBand(100, 200, 800), 100);
+  const slightly = rubberBand(300, 200, 800);
+  const far = rubberBand(1200, 200, 800);
+  assert.ok(slightly > 200 && slightly < 300);
+  assert.ok(far > slightly && far < 200 + 800);
+  assert.equal(rubberBand(-300, 200, 800), -slightly);
+});
+
+test('resists pinching past the zoom limits', () => {
+  assert.equal(rubberBandScale(2, 4), 2);
+  assert.ok(rubberBandScale(8, 4) > 4 && rubberBandScale(8, 4) < 8);
+  assert.ok(rubberBandScale(0.5, 4) > 0.5 && rubberBandScale(0.5, 4) < 1);
+});
+
+test('keeps the spot under the pointer in place while zooming', () => {
+  const view = zoomAround(RESTING_VIEW, { x: 200, y: -100 }, 2);
+  assert.deepEqual(view, { scale: 2, x: -200, y: 100 });
+  // The photo point that was under the pointer maps back to the same screen point.
+  assert.equal(view.x + (200 - RESTING_VIEW.x) * 2, 200);
+});
+
+test('reports the part of the photo in the frame, and centres on a picked spot', () => {
+  assert.deepEqual(getVisibleRegion(RESTING_VIEW, base, frame), { x: 0, y: 0, width: 1, height: 1 });
+  assert.deepEqual(getVisibleRegion({ scale: 2, x: 400, y: 300 }, base, frame), { x: 0, y: 0, width: 0.5, height: 0.5 });
+  const centred = centerViewOn({ scale: 2, x: 0, y: 0 }, { x: 0.75, y: 0.25 }, base);
+  assert.deepEqual(centred, { scale: 2, x: -400, y: 300 });
+  assert.deepEqual(getVisibleRegion(centred, base, frame), { x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  assert.deepEqual(getVisibleRegion(RESTING_VIEW, { width: 0, height: 0 }, frame), { x: 0, y: 0, width: 1, height: 1 });
+});
@@ -0,0 +1,95 @@
+// src/lib/zoom.ts
+import type { ImagePlaceholder } from './placeholder-images';
+
+// How far the zoomed image is scaled, and moved from the centre of its frame in CSS pixels.
+export type ZoomView = { scale: number; x: number; y: number };
+export type Point = { x: number; y: number };
+export type Size = { width: number; height: number };
+// A region of the photo, as fractions of its width and height from its top-left corner.
+export type Region = { x: number; y: number; width: number; height: number };
+
+export const RESTING_VIEW: ZoomView = { scale: 1, x: 0, y: 0 };
+
+// Zoom a single tap locks to, as the old fixed zoom did.
+export const DEFAULT_ZOOM = 2;
+
+// How hard an image resists being dragged past its edges; smaller is stiffer.
+const RUBBER_BAND_FACTOR = 0.55;
+// How hard it resists being pinched past its zoom limits.
+const ZOOM_OVERSHOOT_EXPONENT = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Deepest zoom for an image displayed displayedWidth CSS pixels wide: one photo pixel per CSS pixel.
+// Small photos still get the default zoom, so there is always something to lock to.
+export const getMaxZoom = (image: ImagePlaceholder, displayedWidth: number): number => {
+  return Math.max(DEFAULT_ZOOM, image.width / displayedWidth);
+};
+
+// How far the image can move from the centre each way before one of its edges comes into the frame.
+export const getPanLimits = (base: Size, frame: Size, scale: number): Point => ({
+  x: Math.max(0, (base.width * scale - frame.width) / 2),
+  y: Math.max(0, (base.height * scale - frame.height) / 2),
+});
+
+// The view moved back just far enough that the image covers its frame.
+export const clampView = (view: ZoomView, base: Size, frame: Size): ZoomView => {
+  const limits = getPanLimits(base, frame, view.scale);
+  return {
+    scale: view.scale,
+    x: clamp(view.x, -limits.x, limits.x),
+    y: clamp(view.y, -limits.y, limits.y),
+  };
+};
+
+// Lets a drag carry on past the limit with growing resistance, like a scroll view overscrolling.
+export const rubberBand = (offset: number, limit: number, dimension: number): number => {
+  const excess = Math.abs(offset) - limit;
+  if (excess <= 0 || dimension <= 0) return offset;
+  const resisted = (1 - 1 / ((excess * RUBBER_BAND_FACTOR) / dimension + 1)) * dimension;
+  return Math.sign(offset) * (limit + resisted);
+};
+
+export const rubberBandView = (view: ZoomView, base: Size, frame: Size): ZoomView => {
+  const limits = getPanLimits(base, frame, view.scale);
+  return {
+    scale: view.scale,
+    x: rubberBand(view.x, limits.x, frame.width),
+    y: rubberBand(view.y, limits.y, frame.height),
+  };
+};
+
+// The same resistance for a pinch that goes below 1x or past the deepest zoom; it springs back on release.
+export const rubberBandScale = (scale: number, maxScale: number): number => {
+  if (scale > maxScale) return maxScale * Math.pow(scale / maxScale, ZOOM_OVERSHOOT_EXPONENT);
+  if (scale < 1) return Math.pow(scale, ZOOM_OVERSHOOT_EXPONENT);
+  return scale;
+};
+
+// Zooms to scale while keeping the photo under point (relative to the frame centre) where it is,
+// so the spot under the fingers or cursor stays put.
+export const zoomAround = (view: ZoomView, point: Point, scale: number): ZoomView => {
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  };
+};
+
+// The part of the photo currently inside the frame.
+export const getVisibleRegion = (view: ZoomView, base: Size, frame: Size): Region => {
+  if (base.width === 0 || base.height === 0) return { x: 0, y: 0, width: 1, height: 1 };
+  const left = clamp(0.5 + (-frame.width / 2 - view.x) / (view.scale * base.width), 0, 1);
+  const top = clamp(0.5 + (-frame.height / 2 - view.y) / (view.scale * base.height), 0, 1);
+  const right = clamp(0.5 + (frame.width / 2 - view.x) / (view.scale * base.width), 0, 1);
+  const bottom = clamp(0.5 + (frame.height / 2 - view.y) / (view.scale * base.height), 0, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Moves the view, at its current zoom, so the given spot of the photo (as fractions of its size) is in the middle of the frame.
+export const centerViewOn = (view: ZoomView, point: Point, base: Size): ZoomView => ({
+  scale: view.scale,
+  x: -(point.x - 0.5) * base.width * view.scale,
+  y: -(point.y - 0.5) * base.height * view.scale,
+});
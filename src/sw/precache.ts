@@ -0,0 +1,15 @@
+// src/sw/precache.ts
+// Shared by the service worker, the script that builds it (scripts/build-service-worker.ts) and the page that registers it.
+
+// One file the service worker downloads on install. The revision is a hash of its contents,
+// so files that did not change between builds are carried over instead of downloaded again.
+export type PrecacheEntry = {
+  url: string;
+  revision: string;
+};
+
+// Every cache the service worker owns starts with this; the build id follows, so each deploy gets a fresh cache.
+export const CACHE_PREFIX = 'memory-lane-';
+
+// Sent by the page to a waiting service worker to make it take over straight away.
+export const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';
@@ -0,0 +1,132 @@
+// src/sw/service-worker.ts
+// The service worker, bundled into public/sw.js by `npm run sw` after every build (see scripts/build-service-worker.ts).
+// - The build's JS, CSS and fonts, the landing page and the album pages are precached on install,
+//   so the site works offline from the first visit.
+// - Pages are network-first, falling back to the cached copy.
+// - Photos come from the offline image cache in IndexedDB (see src/hooks/use-offline-sync.ts).
+// - Anything else is cache-first, cached as it is fetched.
+import { getCachedImage } from '../lib/indexed-db';
+import { CACHE_PREFIX, SKIP_WAITING_MESSAGE, type PrecacheEntry } from './precache';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Filled in by the build script.
+declare const __BUILD_ID__: string;
+declare const __PRECACHE_MANIFEST__: PrecacheEntry[];
+
+const CACHE_NAME = `${CACHE_PREFIX}${__BUILD_ID__}`;
+
+// Stored with every precached response, so the next build can tell whether the file changed.
+const REVISION_HEADER = 'X-Precache-Revision';
+
+// Web fonts are loaded from Google Fonts, so these are the only other origins worth caching.
+const FONT_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+const withRevision = (response: Response, revision: string): Response => {
+  const headers = new Headers(response.headers);
+  headers.set(REVISION_HEADER, revision);
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+};
+
+// Fills this build's cache, carrying over files an earlier build already cached at the same revision.
+// A failed download fails the install, leaving the previous worker in charge rather than a half-filled cache.
+const precache = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all(__PRECACHE_MANIFEST__.map(async ({ url, revision }) => {
+    const previous = await caches.match(url);
+    if (previous?.headers.get(REVISION_HEADER) === revision) {
+      await cache.put(url, previous);
+      return;
+    }
+    const response = await fetch(url, { cache: 'reload' });
+    if (!response.ok) {
+      throw new Error(`Could not precache ${url} (${response.status})`);
+    }
+    await cache.put(url, withRevision(response, revision));
+  }));
+};
+
+// Photos are served from the offline image cache when it holds a copy and from the network otherwise.
+// They never go into Cache Storage: the page decides which copies are kept, within its storage budget and
+// checked against the manifest's content hashes, so there is only ever one copy of each on the device.
+// A request that asks to bypass caches (e.g. the page downloading a fresh copy) always goes to the network.
+const serveMemoryImage = async (request: Request): Promise<Response> => {
+  if (request.cache === 'no-cache' || request.cache === 'reload' || request.cache === 'no-store') {
+    return fetch(request);
+  }
+  const url = new URL(request.url);
+  const record = await getCachedImage(decodeURIComponent(url.pathname)).catch(() => null);
+  if (!record) {
+    return fetch(request);
+  }
+  return new Response(record.blob, {
+    headers: {
+      'Content-Type': record.contentType,
+      'Content-Length': String(record.byteSize),
+    },
+  });
+};
+
+const servePage = async (request: Request): Promise<Response> => {
+  try {
+    const response = await fetch(request);
+    if (response.status === 200 && response.type === 'basic') {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    // Offline: the cached copy of this page, or the landing page if it was never visited.
+    const cached = (await caches.match(request, { ignoreSearch: true })) ?? (await caches.match('/'));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const serveAsset = async (request: Request): Promise<Response> => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.status === 200) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache());
+});
+
+// A new build waits until every tab running the old one has closed, unless the visitor chooses to reload
+// (see src/components/service-worker-registrar.tsx).
+self.addEventListener('message', (event) => {
+  if (event.data?.type === SKIP_WAITING_MESSAGE) {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop the caches of earlier builds, then serve the pages that were opened before this worker, too.
+  event.waitUntil(
+    caches.keys()
+      .then(cacheNames => Promise.all(cacheNames.filter(cacheName => cacheName !== CACHE_NAME).map(cacheName => caches.delete(cacheName))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const isSameOrigin = url.origin === self.location.origin;
+  if (isSameOrigin && url.pathname.startsWith('/memories/')) {
+    event.respondWith(serveMemoryImage(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(servePage(request));
+  } else if (isSameOrigin || FONT_ORIGINS.includes(url.origin)) {
+    event.respondWith(serveAsset(request));
+  }
+});